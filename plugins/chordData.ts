@@ -0,0 +1,97 @@
+// Vite plugin that compiles src/data/chords.csv into a JavaScript module when it is
+// imported: each row is validated, and the chords are emitted with their MIDI notes
+// and inversions already worked out, as CHORDS and one named export per quality. A
+// production build fails on invalid rows; the dev server and tests export them as
+// CHORD_DATA_ERRORS so the app can show them.
+import path from 'path';
+import type { Plugin } from 'vite';
+import { formatChordCsvError, parseChordCsv } from '../src/data/chordCsv';
+import { CHORD_QUALITIES, ChordQuality } from '../src/data/chordQualities';
+import { calculateVoicings } from '../src/data/chordVoicings';
+
+const QUALITIES_MODULE = path.resolve(__dirname, '../src/data/chordQualities.ts');
+
+// Registered qualities are looked up in the registry so chords share its objects;
+// qualities derived from an unusual symbol are written out in full. The lookup is
+// marked pure so a bundler can drop it along with chords nothing imports.
+const qualityCode = (quality: ChordQuality) =>
+  quality.registered ? `/* @__PURE__ */ getChordQuality(${JSON.stringify(quality.id)})` : JSON.stringify(quality);
+
+// Name of the export holding every chord of a quality, e.g. "MAJOR_7_CHORDS" for "major-7"
+export function qualityExportName(qualityId: string): string {
+  return `${qualityId.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_CHORDS`;
+}
+
+// Each chord is a module-private constant, exported in one array per quality and in
+// CHORDS in file order, so a bundle only keeps the qualities that are imported
+export function compileChordData(csvText: string, failOnError: boolean): string {
+  const { rows, errors } = parseChordCsv(csvText);
+  if (failOnError && errors.length > 0) {
+    throw new Error(`Invalid chord data:\n${errors.map(formatChordCsvError).join('\n')}`);
+  }
+
+  // Chord constants by quality: every registered quality has an export, even with no
+  // rows, so the names match chords.csv.d.ts; derived ones follow as they appear
+  const groups = new Map<string, { quality: ChordQuality; constant: string; exportName: string; chords: string[] }>();
+  const exportNames = new Set<string>();
+  const groupFor = (quality: ChordQuality) => {
+    let group = groups.get(quality.id);
+    if (!group) {
+      // Derived qualities can sanitise to the same name, so later ones are numbered
+      let exportName = qualityExportName(quality.id);
+      for (let suffix = 2; exportNames.has(exportName); suffix++) {
+        exportName = `${qualityExportName(quality.id)}_${suffix}`;
+      }
+      exportNames.add(exportName);
+      group = { quality, constant: `quality${groups.size}`, exportName, chords: [] };
+      groups.set(quality.id, group);
+    }
+    return group;
+  };
+  CHORD_QUALITIES.forEach(groupFor);
+
+  const chords = rows.map(({ name, notes, midiNotes, quality }, index) => {
+    const group = groupFor(quality);
+    const id = `chord${index}`;
+    group.chords.push(id);
+    const voicings = calculateVoicings({ name, notes, midiNotes, quality });
+    const fields = JSON.stringify({ name, notes, midiNotes, voicings }).slice(1, -1);
+    return { id, code: `const ${id} = { ${fields}, "quality": ${group.constant} };` };
+  });
+
+  return [
+    `import { getChordQuality } from ${JSON.stringify(QUALITIES_MODULE)};`,
+    '',
+    ...[...groups.values()].map(({ quality, constant }) => `const ${constant} = ${qualityCode(quality)};`),
+    '',
+    ...chords.map(chord => chord.code),
+    '',
+    ...[...groups.values()].map(({ exportName, chords: ids }) => `export const ${exportName} = [${ids.join(', ')}];`),
+    '',
+    `export const CHORDS = [${chords.map(chord => chord.id).join(', ')}];`,
+    '',
+    `export const CHORD_DATA_ERRORS = ${JSON.stringify(errors)};`,
+    '',
+  ].join('\n');
+}
+
+export function chordData(): Plugin {
+  let isBuild = false;
+
+  return {
+    name: 'chord-data',
+    configResolved(config) {
+      isBuild = config.command === 'build';
+    },
+    transform(code, id) {
+      if (!id.split('?')[0].endsWith('/chords.csv')) return null;
+
+      try {
+        const output = compileChordData(code, isBuild);
+        return { code: output, map: null };
+      } catch (error) {
+        this.error(error instanceof Error ? error.message : String(error));
+      }
+    },
+  };
+}
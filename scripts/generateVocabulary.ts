@@ -0,0 +1,11 @@
+// Writes src/data/chords.csv from the quality registry: run `npm run generate:vocabulary`
+// after adding or changing a quality in src/data/chordQualities.ts
+import fs from 'fs';
+import path from 'path';
+import { chordVocabularyCsv, generateChordVocabulary } from '../src/data/chordVocabulary';
+
+const outputPath = path.resolve(__dirname, '../src/data/chords.csv');
+const rows = generateChordVocabulary();
+
+fs.writeFileSync(outputPath, chordVocabularyCsv(rows));
+console.log(`Wrote ${rows.length} chords to ${path.relative(process.cwd(), outputPath)}`);
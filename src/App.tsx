@@ -1,12 +1,37 @@
+import { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs';
 import { ByKeyTab } from './components/ByKeyTab';
 import { ByNameTab } from './components/ByNameTab';
+import { CadenceTab } from './components/CadenceTab';
+import { ChordDataAlert } from './components/ChordDataAlert';
+import { IdentifyTab } from './components/IdentifyTab';
+import { NoteLabelSelect } from './components/NoteLabelSelect';
+import { NOTE_LABEL_MODES, NoteLabelMode } from './data/noteLabels';
+
+// The label mode is a per-user preference, so it is remembered between visits
+const LABEL_MODE_STORAGE_KEY = 'chord-lookup.labelMode';
+
+function loadLabelMode(): NoteLabelMode {
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(LABEL_MODE_STORAGE_KEY) : null;
+  return NOTE_LABEL_MODES.find(({ value }) => value === stored)?.value ?? 'name';
+}
 
 export default function App() {
+  const [labelMode, setLabelMode] = useState<NoteLabelMode>(loadLabelMode);
+
+  const handleLabelModeChange = (mode: NoteLabelMode) => {
+    setLabelMode(mode);
+    localStorage.setItem(LABEL_MODE_STORAGE_KEY, mode);
+  };
+
   return (
     <div className="min-h-screen bg-background p-8">
       <div className="max-w-7xl mx-auto">
-        <h1 className="text-3xl font-bold mb-4">Chord Lookup</h1>
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h1 className="text-3xl font-bold">Chord Lookup</h1>
+          <NoteLabelSelect value={labelMode} onChange={handleLabelModeChange} />
+        </div>
+        <ChordDataAlert />
         
         <Tabs defaultValue="by-key" className="w-full">
           <TabsList className="mb-8 w-full">
@@ -16,14 +41,28 @@ export default function App() {
             <TabsTrigger value="by-name">
               By Name
             </TabsTrigger>
+            <TabsTrigger value="identify">
+              Identify
+            </TabsTrigger>
+            <TabsTrigger value="cadences">
+              Cadences
+            </TabsTrigger>
           </TabsList>
           
           <TabsContent value="by-key">
-            <ByKeyTab />
+            <ByKeyTab labelMode={labelMode} />
           </TabsContent>
           
           <TabsContent value="by-name">
-            <ByNameTab />
+            <ByNameTab labelMode={labelMode} />
+          </TabsContent>
+          
+          <TabsContent value="identify">
+            <IdentifyTab labelMode={labelMode} />
+          </TabsContent>
+          
+          <TabsContent value="cadences">
+            <CadenceTab labelMode={labelMode} />
           </TabsContent>
         </Tabs>
       </div>
@@ -1,8 +1,35 @@
 import { useState } from 'react';
 import { Check, ChevronsUpDown } from 'lucide-react';
-import { CHORD_CHART, getChordVoicings } from '../data/chordData';
+import {
+  CHORD_CHART,
+  HARMONIC_LAYERS,
+  HarmonicLayer,
+  KEY_GROUPS,
+  getDiatonicChords,
+} from '../data/chordData';
+import { ChordData } from '../data/chordDatabase';
+import { chordRootName, parseChordSymbol } from '../data/chordParser';
+import { getChordScales } from '../data/chordScales';
+import {
+  CHROMATIC_CATEGORY_LABELS,
+  ChromaticCategory,
+  ChromaticChord,
+  getChromaticChords,
+} from '../data/chromaticChords';
+import { NoteLabelMode } from '../data/noteLabels';
+import { FUNCTION_LABELS, HarmonicFunction, getRomanNumeral } from '../data/romanNumerals';
+import { formatNoteName } from '../data/spelling';
+import { VoicingFamily, calculateFamilyVoicings } from '../data/voicingFamilies';
+import { ChordScalePanel } from './ChordScalePanel';
+import { CircleOfFifths } from './CircleOfFifths';
 import { KeyboardDiagram } from './KeyboardDiagram';
+import { NegativeHarmonyPanel } from './NegativeHarmonyPanel';
+import { VoiceLeadingItem, VoiceLeadingView } from './VoiceLeadingView';
+import { VoicingFamilySelect } from './VoicingFamilySelect';
 import { Button } from './ui/button';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
 import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
 import {
   Command,
@@ -17,16 +44,43 @@ import { cn } from './ui/utils';
 interface SelectedChord {
   chord: string;
   order: number;
+  chromatic?: ChromaticChord; // Set for chips from the chromatic row
+  voicingFamily: VoicingFamily;
+  scaleName: string | null;    // Scale overlaid on the diagrams
+}
+
+// Colour coding for tonic / subdominant / dominant function
+const FUNCTION_CHIP_CLASSES: { [key in HarmonicFunction]: string } = {
+  tonic: 'border-b-4 border-b-blue-500',
+  subdominant: 'border-b-4 border-b-green-500',
+  dominant: 'border-b-4 border-b-red-500',
+};
+
+const FUNCTION_TEXT_CLASSES: { [key in HarmonicFunction]: string } = {
+  tonic: 'text-blue-600',
+  subdominant: 'text-green-600',
+  dominant: 'text-red-600',
+};
+
+interface ByKeyTabProps {
+  labelMode: NoteLabelMode;
 }
 
-export function ByKeyTab() {
+export function ByKeyTab({ labelMode }: ByKeyTabProps) {
   const [open, setOpen] = useState(false);
   const [selectedKey, setSelectedKey] = useState<string>('');
   const [selectedChords, setSelectedChords] = useState<Map<string, SelectedChord>>(new Map());
   const [selectionOrder, setSelectionOrder] = useState(0);
+  const [harmonicLayer, setHarmonicLayer] = useState<HarmonicLayer>('triads');
+  const [showFunctions, setShowFunctions] = useState(false);
+  const [smoothVoiceLeading, setSmoothVoiceLeading] = useState(false);
+  const [slashNames, setSlashNames] = useState(false);
 
   const currentKeyData = CHORD_CHART.find(k => `${k.name} ${k.type}` === selectedKey);
-  const diatonicChords = currentKeyData?.chords || [];
+  const diatonicChords = currentKeyData ? getDiatonicChords(currentKeyData, harmonicLayer) : [];
+  const chromaticChords = currentKeyData ? getChromaticChords(currentKeyData, harmonicLayer) : [];
+  const chromaticCategories = (Object.keys(CHROMATIC_CATEGORY_LABELS) as ChromaticCategory[])
+    .filter(category => chromaticChords.some(item => item.category === category));
 
   const handleKeySelect = (keyName: string) => {
     setSelectedKey(keyName);
@@ -35,23 +89,92 @@ export function ByKeyTab() {
     setOpen(false);
   };
 
+  // Keep the selected degrees (and chromatic functions) when switching layers,
+  // swapping in each one's chord from the new layer
+  const handleLayerChange = (layer: HarmonicLayer) => {
+    if (!currentKeyData) {
+      setHarmonicLayer(layer);
+      return;
+    }
+
+    const previousChords = getDiatonicChords(currentKeyData, harmonicLayer);
+    const nextChords = getDiatonicChords(currentKeyData, layer);
+    const nextChromatic = getChromaticChords(currentKeyData, layer);
+    const newSelected = new Map<string, SelectedChord>();
+
+    selectedChords.forEach((selected) => {
+      const { chord, chromatic } = selected;
+      if (chromatic) {
+        const next = nextChromatic.find(item => item.id === chromatic.id);
+        if (next) {
+          newSelected.set(next.id, { ...selected, chord: next.chord, chromatic: next });
+        }
+        return;
+      }
+
+      const degree = previousChords.find(item => item.chord === chord)?.degree;
+      const next = nextChords.find(item => item.degree === degree);
+      if (next) {
+        newSelected.set(next.chord, { ...selected, chord: next.chord });
+      }
+    });
+
+    setHarmonicLayer(layer);
+    setSelectedChords(newSelected);
+  };
+
   const toggleChord = (chord: string) => {
     const newSelected = new Map(selectedChords);
     
     if (newSelected.has(chord)) {
       newSelected.delete(chord);
     } else {
-      newSelected.set(chord, { chord, order: selectionOrder });
+      newSelected.set(chord, { chord, order: selectionOrder, voicingFamily: 'close', scaleName: null });
       setSelectionOrder(selectionOrder + 1);
     }
     
     setSelectedChords(newSelected);
   };
 
+  // Chromatic chips are keyed by their function so e.g. V/IV and a borrowed chord never clash
+  const toggleChromaticChord = (chromatic: ChromaticChord) => {
+    const newSelected = new Map(selectedChords);
+
+    if (newSelected.has(chromatic.id)) {
+      newSelected.delete(chromatic.id);
+    } else {
+      newSelected.set(chromatic.id, {
+        chord: chromatic.chord,
+        order: selectionOrder,
+        chromatic,
+        voicingFamily: 'close',
+        scaleName: null,
+      });
+      setSelectionOrder(selectionOrder + 1);
+    }
+
+    setSelectedChords(newSelected);
+  };
+
+  const updateSelectedChord = (id: string, update: Partial<SelectedChord>) => {
+    const item = selectedChords.get(id);
+    if (!item) return;
+
+    const newSelected = new Map(selectedChords);
+    newSelected.set(id, { ...item, ...update });
+    setSelectedChords(newSelected);
+  };
+
   // Sort selected chords by selection order
-  const sortedSelectedChords = Array.from(selectedChords.values())
-    .sort((a, b) => a.order - b.order)
-    .map(item => item.chord);
+  const sortedSelectedChords = Array.from(selectedChords.entries())
+    .sort(([, a], [, b]) => a.order - b.order);
+
+  // The selection in order, for the smooth voice-leading view
+  const voiceLeadingItems: VoiceLeadingItem[] = sortedSelectedChords.flatMap(([id, { chord, chromatic }]) => {
+    const chordData: ChordData | null = chromatic ? chromatic.chordData : parseChordSymbol(chord);
+    const numeral = chromatic ? chromatic.label : currentKeyData && getRomanNumeral(currentKeyData, chord)?.numeral;
+    return chordData ? [{ id, title: numeral ? `${numeral} · ${chord}` : chord, chord: chordData }] : [];
+  });
 
   return (
     <div className="space-y-8">
@@ -74,88 +197,214 @@ export function ByKeyTab() {
               <CommandInput placeholder="Search keys..." />
               <CommandList>
                 <CommandEmpty>No key found.</CommandEmpty>
-                <CommandGroup heading="Major Keys">
-                  {CHORD_CHART.filter(k => k.type === 'Major').map((key) => {
-                    const keyName = `${key.name} ${key.type}`;
-                    return (
-                      <CommandItem
-                        key={keyName}
-                        value={keyName}
-                        onSelect={() => handleKeySelect(keyName)}
-                      >
-                        {keyName}
-                        <Check
-                          className={cn(
-                            'ml-auto',
-                            selectedKey === keyName ? 'opacity-100' : 'opacity-0'
-                          )}
-                        />
-                      </CommandItem>
-                    );
-                  })}
-                </CommandGroup>
-                <CommandGroup heading="Minor Keys">
-                  {CHORD_CHART.filter(k => k.type === 'Minor').map((key) => {
-                    const keyName = `${key.name} ${key.type}`;
-                    return (
-                      <CommandItem
-                        key={keyName}
-                        value={keyName}
-                        onSelect={() => handleKeySelect(keyName)}
-                      >
-                        {keyName}
-                        <Check
-                          className={cn(
-                            'ml-auto',
-                            selectedKey === keyName ? 'opacity-100' : 'opacity-0'
-                          )}
-                        />
-                      </CommandItem>
-                    );
-                  })}
-                </CommandGroup>
+                {KEY_GROUPS.map(({ heading, types }) => (
+                  <CommandGroup key={heading} heading={heading}>
+                    {CHORD_CHART.filter(k => types.includes(k.type)).map((key) => {
+                      const keyName = `${key.name} ${key.type}`;
+                      return (
+                        <CommandItem
+                          key={keyName}
+                          value={keyName}
+                          onSelect={() => handleKeySelect(keyName)}
+                        >
+                          {keyName}
+                          <Check
+                            className={cn(
+                              'ml-auto',
+                              selectedKey === keyName ? 'opacity-100' : 'opacity-0'
+                            )}
+                          />
+                        </CommandItem>
+                      );
+                    })}
+                  </CommandGroup>
+                ))}
               </CommandList>
             </Command>
           </PopoverContent>
         </Popover>
 
+        {/* Harmonic Layer Selector */}
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={harmonicLayer}
+          onValueChange={(value) => value && handleLayerChange(value as HarmonicLayer)}
+        >
+          {HARMONIC_LAYERS.map(({ value, label }) => (
+            <ToggleGroupItem key={value} value={value} className="px-3">
+              {label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        {/* Function Colour Toggle */}
+        <div className="flex items-center gap-2">
+          <Switch
+            id="show-functions"
+            checked={showFunctions}
+            onCheckedChange={setShowFunctions}
+          />
+          <Label htmlFor="show-functions">Functions</Label>
+        </div>
+
+        {/* Voice Leading Toggle */}
+        <div className="flex items-center gap-2">
+          <Switch
+            id="smooth-voice-leading"
+            checked={smoothVoiceLeading}
+            onCheckedChange={setSmoothVoiceLeading}
+          />
+          <Label htmlFor="smooth-voice-leading">Smooth voice leading</Label>
+        </div>
+
+        {/* Inversion Naming Toggle */}
+        <div className="flex items-center gap-2">
+          <Switch id="slash-names" checked={slashNames} onCheckedChange={setSlashNames} />
+          <Label htmlFor="slash-names">Slash names</Label>
+        </div>
+
+        {/* Circle of Fifths Key Picker */}
+        <div className="basis-full">
+          <CircleOfFifths value={currentKeyData} onSelect={handleKeySelect} />
+        </div>
+
         {/* Chord Toggle Chips */}
         {diatonicChords.length > 0 && (
           <div className="flex flex-wrap gap-2">
-            {diatonicChords.map((chord) => {
+            {diatonicChords.map(({ chord }) => {
               const isSelected = selectedChords.has(chord);
+              const analysis = currentKeyData ? getRomanNumeral(currentKeyData, chord) : null;
               return (
                 <Button
                   key={chord}
                   variant={isSelected ? 'default' : 'outline'}
                   size="sm"
                   onClick={() => toggleChord(chord)}
-                  className="min-w-[60px]"
+                  className={cn(
+                    'min-w-[60px]',
+                    showFunctions && analysis && FUNCTION_CHIP_CLASSES[analysis.function]
+                  )}
+                  title={analysis ? FUNCTION_LABELS[analysis.function] : undefined}
                 >
+                  {analysis && (
+                    <span className="text-xs opacity-70">{analysis.numeral}</span>
+                  )}
                   {chord}
                 </Button>
               );
             })}
           </div>
         )}
+
+        {/* Chromatic Chord Chips */}
+        {chromaticChords.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 basis-full">
+            {chromaticCategories.map((category) => (
+              <div key={category} className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {CHROMATIC_CATEGORY_LABELS[category]}
+                </span>
+                {chromaticChords.filter(item => item.category === category).map((item) => (
+                  <Button
+                    key={item.id}
+                    variant={selectedChords.has(item.id) ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => toggleChromaticChord(item)}
+                    className={cn(
+                      'min-w-[60px]',
+                      showFunctions && FUNCTION_CHIP_CLASSES[item.function]
+                    )}
+                    title={FUNCTION_LABELS[item.function]}
+                  >
+                    <span className="text-xs opacity-70">{item.label}</span>
+                    {item.chord}
+                  </Button>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Function Legend */}
+        {showFunctions && diatonicChords.length > 0 && (
+          <div className="flex gap-3 text-xs">
+            {(Object.keys(FUNCTION_LABELS) as HarmonicFunction[]).map((fn) => (
+              <span key={fn} className={FUNCTION_TEXT_CLASSES[fn]}>
+                {FUNCTION_LABELS[fn]}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Keyboard Diagrams */}
       {sortedSelectedChords.length > 0 && (
         <div className="space-y-8">
           <h2 className="text-2xl font-semibold">Keyboard Diagrams</h2>
-          {sortedSelectedChords.map((chord) => {
-            const voicings = getChordVoicings(chord);
+          {smoothVoiceLeading && (
+            <VoiceLeadingView items={voiceLeadingItems} keyContext={currentKeyData} labelMode={labelMode} />
+          )}
+          {!smoothVoiceLeading && sortedSelectedChords.map(([id, { chord, chromatic, voicingFamily, scaleName }]) => {
+            const chordData = chromatic ? chromatic.chordData : parseChordSymbol(chord);
+            const voicings = chordData ? calculateFamilyVoicings(chordData, voicingFamily, { slashNames }) : [];
+            const scales = chordData ? getChordScales(chordData, currentKeyData) : [];
+            const overlay = scales.find(scale => scale.name === scaleName);
+            const root = chordData ? chordRootName(chordData) ?? undefined : undefined;
+            const analysis = chromatic
+              ? { numeral: chromatic.label, function: chromatic.function }
+              : currentKeyData ? getRomanNumeral(currentKeyData, chord) : null;
             return (
-              <div key={chord} className="space-y-3">
-                <h3 className="text-lg font-medium">{chord}</h3>
-                <div className="flex gap-6">
+              <div key={id} className="space-y-3">
+                {analysis && (
+                  <div
+                    className={cn(
+                      'text-sm font-medium',
+                      showFunctions ? FUNCTION_TEXT_CLASSES[analysis.function] : 'text-muted-foreground'
+                    )}
+                  >
+                    {analysis.numeral}
+                    {showFunctions && ` · ${FUNCTION_LABELS[analysis.function]}`}
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-4">
+                  <h3 className="text-lg font-medium">
+                    {chord}
+                    {chordData && (
+                      <span className="text-sm text-muted-foreground ml-2">
+                        ({chordData.notes.map(formatNoteName).join(', ')})
+                      </span>
+                    )}
+                  </h3>
+                  <VoicingFamilySelect
+                    value={voicingFamily}
+                    onChange={(family) => updateSelectedChord(id, { voicingFamily: family })}
+                  />
+                </div>
+                <ChordScalePanel
+                  scales={scales}
+                  value={scaleName}
+                  onChange={(name) => updateSelectedChord(id, { scaleName: name })}
+                />
+                {chordData && (
+                  <NegativeHarmonyPanel chord={chordData} keyContext={currentKeyData} labelMode={labelMode} />
+                )}
+                {voicings.length === 0 && (
+                  <div className="text-sm text-muted-foreground">No voicings of this kind for {chord}</div>
+                )}
+                <div className="flex flex-wrap gap-6">
                   {voicings.map((voicing, index) => (
                     <KeyboardDiagram
-                      key={`${chord}-${index}`}
+                      key={`${id}-${index}`}
                       notes={voicing.notes}
                       voicingName={voicing.name}
                       noteNames={voicing.noteNames}
+                      hands={voicing.hands}
+                      keyContext={currentKeyData}
+                      scale={overlay?.notes}
+                      labelMode={labelMode}
+                      root={root}
                     />
                   ))}
                 </div>
@@ -1,41 +1,70 @@
 import { useState, useEffect } from 'react';
-import { X } from 'lucide-react';
-import { ChordData, searchChords, calculateVoicings } from '../data/chordDatabase';
+import { ArrowRight, Minus, Plus, X } from 'lucide-react';
+import { ChordData, searchChords } from '../data/chordDatabase';
+import { CHORD_CHART, KEY_GROUPS, KeyData } from '../data/chordData';
+import { chordRootName } from '../data/chordParser';
+import { getChordScales } from '../data/chordScales';
+import { detectKeys } from '../data/keyDetection';
+import { getNegativeChord } from '../data/negativeHarmony';
+import { NoteLabelMode } from '../data/noteLabels';
+import { transformCollection, transposeChord, transposeChordToKey } from '../data/transpose';
+import { VoicingFamily, calculateFamilyVoicings } from '../data/voicingFamilies';
+import { formatNoteName } from '../data/spelling';
+import { ChordScalePanel } from './ChordScalePanel';
 import { KeyboardDiagram } from './KeyboardDiagram';
+import { NegativeHarmonyPanel } from './NegativeHarmonyPanel';
+import { NeoRiemannianPanel } from './NeoRiemannianPanel';
+import { PitchClassSetPanel } from './PitchClassSetPanel';
+import { UpperStructurePanel } from './UpperStructurePanel';
+import { VoiceLeadingView } from './VoiceLeadingView';
+import { VoicingFamilySelect } from './VoicingFamilySelect';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Badge } from './ui/badge';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { cn } from './ui/utils';
+
+// Number of key candidates shown in the Likely Keys panel
+const LIKELY_KEY_COUNT = 3;
+
+const keyLabel = (key: KeyData) => `${key.name} ${key.type}`;
 
 interface SelectedChord {
   chord: ChordData;
   order: number;
   isDisplayed: boolean;
+  voicingFamily: VoicingFamily;
+  scaleName: string | null; // Scale overlaid on the diagrams
+}
+
+interface ByNameTabProps {
+  labelMode: NoteLabelMode;
 }
 
-export function ByNameTab() {
+export function ByNameTab({ labelMode }: ByNameTabProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<ChordData[]>([]);
   const [chordCollection, setChordCollection] = useState<Map<string, SelectedChord>>(new Map());
   const [selectionOrder, setSelectionOrder] = useState(0);
-  const [isSearching, setIsSearching] = useState(false);
+  const [fromKey, setFromKey] = useState('');
+  const [toKey, setToKey] = useState('');
+  const [smoothVoiceLeading, setSmoothVoiceLeading] = useState(false);
+  const [slashNames, setSlashNames] = useState(false);
 
   // Perform search with debouncing
   useEffect(() => {
-    const searchTimer = setTimeout(async () => {
-      if (searchQuery.trim()) {
-        setIsSearching(true);
-        try {
-          const results = await searchChords(searchQuery);
-          setSearchResults(results);
-        } catch (error) {
-          console.error('Search failed:', error);
-          setSearchResults([]);
-        } finally {
-          setIsSearching(false);
-        }
-      } else {
-        setSearchResults([]);
-      }
+    const searchTimer = setTimeout(() => {
+      setSearchResults(searchChords(searchQuery));
     }, 300);
 
     return () => clearTimeout(searchTimer);
@@ -56,7 +85,9 @@ export function ByNameTab() {
     newCollection.set(chord.name, {
       chord,
       order: selectionOrder,
-      isDisplayed: false
+      isDisplayed: false,
+      voicingFamily: 'close',
+      scaleName: null
     });
     setChordCollection(newCollection);
     setSelectionOrder(selectionOrder + 1);
@@ -64,6 +95,32 @@ export function ByNameTab() {
     setSearchResults([]);
   };
 
+  // Add chords in order (e.g. a transformation sequence), skipping any already collected
+  const addSequenceToCollection = (chords: ChordData[]) => {
+    const newCollection = new Map(chordCollection);
+    let order = selectionOrder;
+    let isFull = false;
+
+    chords.forEach((chord) => {
+      if (newCollection.has(chord.name)) return;
+      if (newCollection.size >= 7) {
+        isFull = true;
+        return;
+      }
+      newCollection.set(chord.name, {
+        chord,
+        order: order++,
+        isDisplayed: false,
+        voicingFamily: 'close',
+        scaleName: null
+      });
+    });
+
+    if (isFull) alert('Maximum 7 chords allowed in collection');
+    setChordCollection(newCollection);
+    setSelectionOrder(order);
+  };
+
   const removeFromCollection = (chordName: string) => {
     const newCollection = new Map(chordCollection);
     newCollection.delete(chordName);
@@ -82,6 +139,58 @@ export function ByNameTab() {
     }
   };
 
+  const updateCollectionChord = (chordName: string, update: Partial<SelectedChord>) => {
+    const newCollection = new Map(chordCollection);
+    const chordItem = newCollection.get(chordName);
+    if (chordItem) {
+      newCollection.set(chordName, { ...chordItem, ...update });
+      setChordCollection(newCollection);
+    }
+  };
+
+  // Replace every chord with its transform. Chords the transform can't handle stay as
+  // they were and chords that land on the same name are merged; the user is told of both.
+  const transposeCollection = (
+    transform: (chord: ChordData) => ChordData | null,
+    failure = 'could not be transposed'
+  ) => {
+    const sorted = Array.from(chordCollection.values()).sort((a, b) => a.order - b.order);
+    const { items, merged, skipped } = transformCollection(sorted, transform);
+
+    setChordCollection(new Map(items.map(item => [item.chord.name, item])));
+
+    const messages = [
+      ...skipped.map(chord => `${chord.name} ${failure} and was left unchanged.`),
+      ...merged.map(({ chord, into }) => `${chord.name} became ${into.name}, which was already in the collection, so they were merged.`),
+    ];
+    if (messages.length > 0) alert(messages.join('\n'));
+  };
+
+  const transposeBySemitones = (semitones: number) => {
+    transposeCollection(chord => transposeChord(chord, semitones));
+    setFromKey('');
+  };
+
+  const transposeToKey = () => {
+    const source = CHORD_CHART.find(key => keyLabel(key) === (fromKey || likelyKeyLabel));
+    const target = CHORD_CHART.find(key => keyLabel(key) === toKey);
+    if (!source || !target) return;
+
+    transposeCollection(chord => transposeChordToKey(chord, source, target));
+    setFromKey(keyLabel(target));
+    setToKey('');
+  };
+
+  // Replace every chord with its negative-harmony mirror in the source key. The key
+  // is pinned so mirroring again uses the same axis and restores the collection.
+  const negateCollection = () => {
+    const source = sourceKey;
+    if (!source) return;
+
+    transposeCollection(chord => getNegativeChord(chord, source)?.chord ?? null, `has no negative-harmony match in ${keyLabel(source)}`);
+    setFromKey(keyLabel(source));
+  };
+
   // Get chords to display, sorted by selection order
   const displayedChords = Array.from(chordCollection.values())
     .filter(item => item.isDisplayed)
@@ -91,6 +200,24 @@ export function ByNameTab() {
   const collectionChords = Array.from(chordCollection.values())
     .sort((a, b) => a.order - b.order);
 
+  // Rank keys against the whole collection, in the order the chords were added
+  const likelyKeys = detectKeys(collectionChords.map(item => item.chord)).slice(0, LIKELY_KEY_COUNT);
+  const likelyKeyLabel = likelyKeys.length > 0 ? keyLabel(likelyKeys[0].key) : '';
+
+  // Key the collection is read in: the chosen "from" key, else the likeliest one
+  const sourceKey = CHORD_CHART.find(key => keyLabel(key) === (fromKey || likelyKeyLabel));
+
+  const keyOptions = KEY_GROUPS.map(({ heading, types }) => (
+    <SelectGroup key={heading}>
+      <SelectLabel>{heading}</SelectLabel>
+      {CHORD_CHART.filter(key => types.includes(key.type)).map(key => (
+        <SelectItem key={keyLabel(key)} value={keyLabel(key)}>
+          {keyLabel(key)}
+        </SelectItem>
+      ))}
+    </SelectGroup>
+  ));
+
   return (
     <div className="space-y-8">
       {/* Search and Filter Chips Section */}
@@ -131,12 +258,61 @@ export function ByNameTab() {
         )}
       </div>
 
+      {/* Transpose Controls */}
+      {collectionChords.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">Transpose:</span>
+          <Button variant="outline" size="sm" onClick={() => transposeBySemitones(-1)} title="Down a semitone">
+            <Minus />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => transposeBySemitones(1)} title="Up a semitone">
+            <Plus />
+          </Button>
+          <span className="text-sm text-muted-foreground ml-2">or from</span>
+          <Select value={fromKey || likelyKeyLabel} onValueChange={setFromKey}>
+            <SelectTrigger size="sm" className="w-[200px]">
+              <SelectValue placeholder="From key..." />
+            </SelectTrigger>
+            <SelectContent>{keyOptions}</SelectContent>
+          </Select>
+          <ArrowRight className="w-4 h-4 text-muted-foreground" />
+          <Select value={toKey} onValueChange={setToKey}>
+            <SelectTrigger size="sm" className="w-[200px]">
+              <SelectValue placeholder="To key..." />
+            </SelectTrigger>
+            <SelectContent>{keyOptions}</SelectContent>
+          </Select>
+          <Button size="sm" onClick={transposeToKey} disabled={!toKey}>
+            Transpose
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={negateCollection}
+            disabled={!sourceKey}
+            title="Mirror every chord around the key's tonic–dominant axis"
+          >
+            Negative harmony
+          </Button>
+          <div className="flex items-center gap-2 ml-4">
+            <Switch
+              id="smooth-voice-leading"
+              checked={smoothVoiceLeading}
+              onCheckedChange={setSmoothVoiceLeading}
+            />
+            <Label htmlFor="smooth-voice-leading">Smooth voice leading</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="slash-names" checked={slashNames} onCheckedChange={setSlashNames} />
+            <Label htmlFor="slash-names">Slash names</Label>
+          </div>
+        </div>
+      )}
+
       {/* Search Results */}
       {searchQuery && (
         <div className="max-w-md">
-          {isSearching ? (
-            <div className="text-sm text-muted-foreground p-2">Searching...</div>
-          ) : searchResults.length > 0 ? (
+          {searchResults.length > 0 ? (
             <div className="border rounded-md max-h-48 overflow-y-auto">
               {searchResults.map((chord) => (
                 <div
@@ -147,7 +323,7 @@ export function ByNameTab() {
                   <div>
                     <span className="font-medium">{chord.name}</span>
                     <span className="text-sm text-muted-foreground ml-2">
-                      ({chord.notes.join(', ')})
+                      ({chord.notes.map(formatNoteName).join(', ')})
                     </span>
                   </div>
                   <Button size="sm" variant="ghost" className="text-xs">
@@ -162,27 +338,103 @@ export function ByNameTab() {
         </div>
       )}
 
+      {/* Likely Keys */}
+      {likelyKeys.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="text-2xl font-semibold">Likely Keys</h2>
+          <div className="flex flex-wrap gap-4">
+            {likelyKeys.map(({ key, fit, readings }, index) => (
+              <div key={`${key.name} ${key.type}`} className="border rounded-md p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{key.name} {key.type}</span>
+                  <Badge variant={index === 0 ? 'default' : 'outline'}>
+                    {Math.round(fit * 100)}%
+                  </Badge>
+                </div>
+                <div className="flex gap-3">
+                  {readings.map(({ chord, numeral, diatonic }) => (
+                    <div key={chord.name} className="flex flex-col items-center text-sm">
+                      <span>{chord.name}</span>
+                      <span
+                        className={cn(
+                          'text-xs',
+                          diatonic ? 'text-foreground' : 'text-muted-foreground italic'
+                        )}
+                      >
+                        {numeral ?? '?'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Keyboard Diagrams */}
       {displayedChords.length > 0 && (
         <div className="space-y-8">
           <h2 className="text-2xl font-semibold">Keyboard Diagrams</h2>
-          {displayedChords.map(({ chord }) => {
-            const voicings = calculateVoicings(chord);
+          {smoothVoiceLeading && (
+            <VoiceLeadingView
+              items={displayedChords.map(({ chord }) => ({ id: chord.name, title: chord.name, chord }))}
+              keyContext={likelyKeys[0]?.key}
+              labelMode={labelMode}
+            />
+          )}
+          {!smoothVoiceLeading && displayedChords.map(({ chord, voicingFamily, scaleName }) => {
+            const voicings = calculateFamilyVoicings(chord, voicingFamily, { slashNames });
+            const scales = getChordScales(chord, likelyKeys[0]?.key);
+            const overlay = scales.find(scale => scale.name === scaleName);
             return (
               <div key={chord.name} className="space-y-3">
-                <h3 className="text-lg font-medium">
-                  {chord.name}
-                  <span className="text-sm text-muted-foreground ml-2">
-                    ({chord.notes.join(', ')})
-                  </span>
-                </h3>
-                <div className="flex gap-6">
+                <div className="flex flex-wrap items-center gap-4">
+                  <h3 className="text-lg font-medium">
+                    {chord.name}
+                    <span className="text-sm text-muted-foreground ml-2">
+                      ({chord.notes.map(formatNoteName).join(', ')})
+                    </span>
+                  </h3>
+                  <VoicingFamilySelect
+                    value={voicingFamily}
+                    onChange={(family) => updateCollectionChord(chord.name, { voicingFamily: family })}
+                  />
+                </div>
+                <PitchClassSetPanel chord={chord} />
+                <UpperStructurePanel chord={chord} onAdd={addToCollection} />
+                <ChordScalePanel
+                  scales={scales}
+                  value={scaleName}
+                  onChange={(name) => updateCollectionChord(chord.name, { scaleName: name })}
+                />
+                <NegativeHarmonyPanel
+                  chord={chord}
+                  keyContext={sourceKey}
+                  labelMode={labelMode}
+                  onAdd={addToCollection}
+                />
+                <NeoRiemannianPanel
+                  chord={chord}
+                  keyContext={sourceKey}
+                  labelMode={labelMode}
+                  onAddSequence={addSequenceToCollection}
+                />
+                {voicings.length === 0 && (
+                  <div className="text-sm text-muted-foreground">No voicings of this kind for {chord.name}</div>
+                )}
+                <div className="flex flex-wrap gap-6">
                   {voicings.map((voicing, index) => (
                     <KeyboardDiagram
                       key={`${chord.name}-${index}`}
                       notes={voicing.notes}
                       voicingName={voicing.name}
                       noteNames={voicing.noteNames}
+                      hands={voicing.hands}
+                      scale={overlay?.notes}
+                      keyContext={likelyKeys[0]?.key}
+                      labelMode={labelMode}
+                      root={chordRootName(chord) ?? undefined}
                     />
                   ))}
                 </div>
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { CADENCE_PATTERNS, CadenceMode, generateCadence, getCadenceKeys, getCadencePattern } from '../data/cadences';
+import { chordRootName } from '../data/chordParser';
+import { NoteLabelMode } from '../data/noteLabels';
+import { formatNoteName } from '../data/spelling';
+import { KeyboardDiagram } from './KeyboardDiagram';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+// Key selector value for drilling the pattern in every key
+const ALL_KEYS = 'all';
+
+interface CadenceTabProps {
+  labelMode: NoteLabelMode;
+}
+
+// Cadence and ii–V–I drills: the chosen pattern in one key or all twelve, one row
+// of voice-led keyboard diagrams per key with the moving voices highlighted
+export function CadenceTab({ labelMode }: CadenceTabProps) {
+  const [patternId, setPatternId] = useState(CADENCE_PATTERNS[0].id);
+  const [mode, setMode] = useState<CadenceMode>('major');
+  const [keyName, setKeyName] = useState(ALL_KEYS);
+
+  const keys = getCadenceKeys(mode);
+  const pattern = getCadencePattern(patternId);
+  const shownKeys = keyName === ALL_KEYS ? keys : keys.filter(key => key.name === keyName);
+
+  const handleModeChange = (value: CadenceMode) => {
+    setMode(value);
+    setKeyName(ALL_KEYS);
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center gap-4">
+        <Select value={patternId} onValueChange={setPatternId}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CADENCE_PATTERNS.map(({ id, name }) => (
+              <SelectItem key={id} value={id}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={mode}
+          onValueChange={(value) => value && handleModeChange(value as CadenceMode)}
+        >
+          <ToggleGroupItem value="major" className="px-3">Major</ToggleGroupItem>
+          <ToggleGroupItem value="minor" className="px-3">Minor</ToggleGroupItem>
+        </ToggleGroup>
+
+        <Select value={keyName} onValueChange={setKeyName}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_KEYS}>All 12 keys</SelectItem>
+            {keys.map(key => (
+              <SelectItem key={key.name} value={key.name}>{key.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {shownKeys.map((key) => {
+        const { steps, voicings } = generateCadence(pattern, key);
+        return (
+          <div key={key.name} className="space-y-3">
+            <h2 className="text-xl font-semibold">
+              {key.name} {key.type}
+              <span className="text-sm text-muted-foreground ml-2">
+                {steps.map(step => step.numeral).join(' – ')}
+              </span>
+            </h2>
+            <div className="flex flex-wrap items-end gap-4">
+              {voicings.map((step, index) => (
+                <div key={index} className="flex items-end gap-4">
+                  {index > 0 && <ArrowRight className="w-4 h-4 mb-10 text-muted-foreground" />}
+                  <div className="space-y-1">
+                    <h3 className="text-lg font-medium">
+                      <span className="text-sm text-muted-foreground mr-2">{steps[index].numeral}</span>
+                      {formatNoteName(step.chord.name)}
+                    </h3>
+                    <KeyboardDiagram
+                      notes={step.voicing.notes}
+                      voicingName={index === 0 ? step.voicing.name : `${step.voicing.name} · ${step.movement} st`}
+                      noteNames={step.voicing.noteNames}
+                      keyContext={key}
+                      highlightedNotes={step.movingNotes}
+                      labelMode={labelMode}
+                      root={chordRootName(step.chord) ?? undefined}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { AlertTriangle } from 'lucide-react';
+import { formatChordCsvError } from '../data/chordCsv';
+import { loadChordDatabaseErrors } from '../data/chordDatabase';
+import { Alert, AlertDescription, AlertTitle } from './ui/alert';
+
+// Errors beyond this many are summarised as a count
+const MAX_SHOWN_ERRORS = 10;
+
+// Reports chords.csv rows that failed validation. A production build fails on them,
+// so this only appears in development, instead of the rows vanishing silently
+export function ChordDataAlert() {
+  const errors = loadChordDatabaseErrors();
+
+  if (errors.length === 0) return null;
+
+  return (
+    <Alert variant="destructive" className="mb-4">
+      <AlertTriangle />
+      <AlertTitle>
+        {errors.length === 1 ? '1 problem' : `${errors.length} problems`} in the chord data
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4">
+          {errors.slice(0, MAX_SHOWN_ERRORS).map((error, index) => (
+            <li key={index}>{formatChordCsvError(error)}</li>
+          ))}
+        </ul>
+        {errors.length > MAX_SHOWN_ERRORS && <p>…and {errors.length - MAX_SHOWN_ERRORS} more</p>}
+      </AlertDescription>
+    </Alert>
+  );
+}
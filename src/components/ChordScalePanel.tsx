@@ -0,0 +1,35 @@
+import { ChordScale } from '../data/chordScales';
+import { Button } from './ui/button';
+
+// Number of scales listed under each chord
+const SCALE_COUNT = 6;
+
+interface ChordScalePanelProps {
+  scales: ChordScale[];
+  value: string | null;                     // Name of the scale shown on the keyboard, if any
+  onChange: (scaleName: string | null) => void;
+}
+
+// Compatible scales for improvising over a chord, best fit first. Clicking a
+// scale overlays it on the chord's diagrams; clicking it again removes it.
+export function ChordScalePanel({ scales, value, onChange }: ChordScalePanelProps) {
+  if (scales.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-muted-foreground">Scales:</span>
+      {scales.slice(0, SCALE_COUNT).map(({ name, notes, avoidNotes, inKey }) => (
+        <Button
+          key={name}
+          variant={value === name ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => onChange(value === name ? null : name)}
+          title={`${notes.join(' ')}${avoidNotes.length > 0 ? ` · avoid ${avoidNotes.join(', ')}` : ''}`}
+        >
+          {name}
+          {inKey && <span className="text-xs opacity-70">in key</span>}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { KeyData } from '../data/chordData';
+import { CircleRing, getCircleHighlights, getCircleOfFifths } from '../data/circleOfFifths';
+import { cn } from './ui/utils';
+
+const SIZE = 280;
+const CENTER = SIZE / 2;
+
+// Inner and outer radius of each ring
+const RINGS: { [ring in CircleRing]: [number, number] } = {
+  major: [96, 136],
+  minor: [62, 96],
+  diminished: [38, 62],
+};
+
+const CIRCLE = getCircleOfFifths();
+
+interface CircleOfFifthsProps {
+  value?: KeyData;                      // Selected key; its diatonic triads are highlighted
+  onSelect: (keyName: string) => void;  // Receives "C Major" / "Am Minor", as in the key list
+}
+
+// Point on the circle, with 0° at the top and angles running clockwise
+function polar(radius: number, degrees: number): [number, number] {
+  const radians = (degrees - 90) * Math.PI / 180;
+  return [CENTER + radius * Math.cos(radians), CENTER + radius * Math.sin(radians)];
+}
+
+// Ring segment centred on one position of the circle
+function segmentPath(ring: CircleRing, position: number): string {
+  const [inner, outer] = RINGS[ring];
+  const start = position * 30 - 15;
+  const end = start + 30;
+  const [x1, y1] = polar(outer, start);
+  const [x2, y2] = polar(outer, end);
+  const [x3, y3] = polar(inner, end);
+  const [x4, y4] = polar(inner, start);
+  return `M ${x1} ${y1} A ${outer} ${outer} 0 0 1 ${x2} ${y2} L ${x3} ${y3} A ${inner} ${inner} 0 0 0 ${x4} ${y4} Z`;
+}
+
+const keyName = (key: KeyData) => `${key.name} ${key.type}`;
+
+// Circle-of-fifths key picker: majors on the outer ring, relative minors inside
+// them and leading-tone diminished triads in the middle. Clicking a major or minor
+// segment selects that key; the selected key's diatonic triads are shaded.
+export function CircleOfFifths({ value, onSelect }: CircleOfFifthsProps) {
+  const highlights = value ? getCircleHighlights(value) : [];
+  const highlightAt = (ring: CircleRing, position: number) =>
+    highlights.find(highlight => highlight.ring === ring && highlight.position === position);
+
+  const renderSegment = (ring: CircleRing, position: number, label: string, key?: KeyData) => {
+    const highlight = highlightAt(ring, position);
+    const isSelected = key !== undefined && value !== undefined && keyName(key) === keyName(value);
+    const [inner, outer] = RINGS[ring];
+    const [x, y] = polar((inner + outer) / 2, position * 30);
+
+    return (
+      <g
+        key={`${ring}-${position}`}
+        onClick={key ? () => onSelect(keyName(key)) : undefined}
+        className={cn(key && 'cursor-pointer')}
+      >
+        <title>{highlight?.numeral ? `${label} (${highlight.numeral})` : label}</title>
+        <path
+          d={segmentPath(ring, position)}
+          className={cn(
+            'stroke-border',
+            isSelected ? 'fill-blue-500' : highlight ? 'fill-blue-100' : 'fill-background',
+            key && !isSelected && 'hover:fill-muted'
+          )}
+        />
+        <text
+          x={x}
+          y={y}
+          textAnchor="middle"
+          dominantBaseline="central"
+          className={cn(
+            'pointer-events-none select-none',
+            ring === 'major' ? 'text-sm font-medium' : 'text-xs',
+            isSelected ? 'fill-white' : highlight ? 'fill-foreground' : 'fill-muted-foreground'
+          )}
+        >
+          {label}
+        </text>
+      </g>
+    );
+  };
+
+  return (
+    <svg width={SIZE} height={SIZE} viewBox={`0 0 ${SIZE} ${SIZE}`} role="group" aria-label="Circle of fifths">
+      {CIRCLE.map(({ position, major, minor, diminished }) => [
+        renderSegment('major', position, major.name, major),
+        renderSegment('minor', position, minor.name, minor),
+        renderSegment('diminished', position, diminished),
+      ])}
+    </svg>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { identifyChord, inversionLabel } from '../data/chordIdentifier';
+import { chordRootName } from '../data/chordParser';
+import { NoteLabelMode } from '../data/noteLabels';
+import { formatNoteName } from '../data/spelling';
+import { KeyboardDiagram } from './KeyboardDiagram';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+
+interface IdentifyTabProps {
+  labelMode: NoteLabelMode;
+}
+
+export function IdentifyTab({ labelMode }: IdentifyTabProps) {
+  const [playedNotes, setPlayedNotes] = useState<number[]>([]);
+
+  // Re-identified on every render, so the matches always follow the played notes
+  const matches = identifyChord(playedNotes);
+
+  const toggleNote = (midi: number) => {
+    if (playedNotes.includes(midi)) {
+      setPlayedNotes(playedNotes.filter(note => note !== midi));
+    } else {
+      setPlayedNotes([...playedNotes, midi].sort((a, b) => a - b));
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-end gap-4">
+        <KeyboardDiagram
+          notes={playedNotes}
+          voicingName="Click keys to toggle notes"
+          onKeyClick={toggleNote}
+          labelMode={labelMode}
+          root={matches.length > 0 ? chordRootName(matches[0].chord) ?? undefined : undefined}
+        />
+        {playedNotes.length > 0 && (
+          <Button variant="outline" size="sm" onClick={() => setPlayedNotes([])}>
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {/* Matching Chords */}
+      {playedNotes.length >= 2 && (
+        <div className="space-y-3 max-w-md">
+          <h2 className="text-2xl font-semibold">Matching Chords</h2>
+          {matches.length > 0 ? (
+            <div className="border rounded-md max-h-96 overflow-y-auto">
+              {matches.map((match) => (
+                <div
+                  key={match.name}
+                  className="p-2 border-b last:border-b-0 flex justify-between items-center"
+                >
+                  <div>
+                    <span className="font-medium">{match.name}</span>
+                    <span className="text-sm text-muted-foreground ml-2">
+                      ({match.chord.notes.map(formatNoteName).join(', ')})
+                    </span>
+                  </div>
+                  <Badge variant={match.inversion === 0 ? 'default' : 'outline'}>
+                    {inversionLabel(match)}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground p-2">No matching chords found</div>
+          )}
+        </div>
+      )}
+
+      {/* Empty State */}
+      {playedNotes.length < 2 && (
+        <div className="text-center text-muted-foreground py-12">
+          <p>Click at least two keys on the keyboard to identify a chord</p>
+        </div>
+      )}
+    </div>
+  );
+}
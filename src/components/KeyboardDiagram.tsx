@@ -1,16 +1,40 @@
 import React from 'react';
+import { Hand } from '../data/chordVoicings';
+import { NoteLabelMode, noteLabel } from '../data/noteLabels';
+import { KeyContext, notePitchClass, spellPitchClass } from '../data/spelling';
 
 interface KeyboardDiagramProps {
   notes: number[];
   voicingName: string;
   noteNames?: string[];
+  onKeyClick?: (midi: number) => void;
+  keyContext?: KeyContext;
+  highlightedNotes?: number[]; // Active notes drawn in the highlight colour (e.g. moving voices)
+  hands?: Hand[];              // Hand for each note; left-hand notes are drawn in blue
+  scale?: string[];            // Scale overlay: its other notes are drawn in a lighter colour
+  labelMode?: NoteLabelMode;   // Naming system for the labels under the keys
+  root?: string;               // Chord root, for interval labels
 }
 
-export function KeyboardDiagram({ notes, voicingName, noteNames }: KeyboardDiagramProps) {
-  // Generate 2 octaves of keys starting from C (MIDI 60)
-  const startNote = 60; // C4
-  const numOctaves = 2;
-  const totalKeys = numOctaves * 12;
+export function KeyboardDiagram({
+  notes,
+  voicingName,
+  noteNames,
+  onKeyClick,
+  keyContext,
+  highlightedNotes = [],
+  hands,
+  scale = [],
+  labelMode = 'name',
+  root,
+}: KeyboardDiagramProps) {
+  // Generate 2 octaves of keys starting from C (MIDI 60), widened by whole
+  // octaves when a voicing reaches outside C4–B5
+  const lowestNote = notes.length > 0 ? Math.min(...notes) : 60;
+  const highestNote = notes.length > 0 ? Math.max(...notes) : 83;
+  const startNote = Math.min(60, 12 * Math.floor(lowestNote / 12)); // C4 or lower
+  const endNote = Math.max(84, 12 * Math.ceil((highestNote + 1) / 12)); // C6 or higher, exclusive
+  const totalKeys = endNote - startNote;
   
   const whiteKeyPattern = [0, 2, 4, 5, 7, 9, 11]; // C, D, E, F, G, A, B
   const blackKeyPattern = [1, 3, 6, 8, 10]; // C#, D#, F#, G#, A#
@@ -29,7 +53,7 @@ export function KeyboardDiagram({ notes, voicingName, noteNames }: KeyboardDiagr
     }
   }
   
-  const getNoteName = (midi: number) => {
+  const getSpelling = (midi: number) => {
     // If noteNames are provided, use them for correct enharmonics
     if (noteNames) {
       const noteIndex = notes.indexOf(midi);
@@ -37,10 +61,28 @@ export function KeyboardDiagram({ notes, voicingName, noteNames }: KeyboardDiagr
         return noteNames[noteIndex];
       }
     }
-    // Fallback to default sharp notation
-    const defaultNames = ['C', 'C♯', 'D', 'D♯', 'E', 'F', 'F♯', 'G', 'G♯', 'A', 'A♯', 'B'];
-    return defaultNames[midi % 12];
+    // Scale overlay notes use the scale's own spelling
+    const scaleNote = scale.find(note => notePitchClass(note) === midi % 12);
+    if (scaleNote) return scaleNote;
+    // Fallback to the key's spelling (or a neutral default without a key)
+    return spellPitchClass(midi % 12, keyContext);
   };
+
+  // Compound intervals (9, 11, 13) are measured from the root at or below the lowest note
+  const rootPitchClass = root ? notePitchClass(root) : null;
+  const rootMidi = rootPitchClass === null ? undefined
+    : lowestNote - ((lowestNote - rootPitchClass) % 12 + 12) % 12;
+
+  const getNoteName = (midi: number) =>
+    noteLabel(getSpelling(midi), midi, labelMode, { root, rootMidi, key: keyContext });
+  
+  // When a click handler is provided the keyboard doubles as an input surface
+  const isInteractive = onKeyClick !== undefined;
+
+  const isHighlighted = (midi: number) => highlightedNotes.includes(midi);
+  const isLeftHand = (midi: number) => hands?.[notes.indexOf(midi)] === 'left';
+  const scalePitchClasses = scale.map(note => notePitchClass(note));
+  const isInScale = (midi: number) => !notes.includes(midi) && scalePitchClasses.includes(midi % 12);
   
   return (
     <div className="flex flex-col gap-1">
@@ -53,11 +95,18 @@ export function KeyboardDiagram({ notes, voicingName, noteNames }: KeyboardDiagr
             return (
               <div
                 key={`white-${midiNote}`}
+                onClick={isInteractive ? () => onKeyClick(midiNote) : undefined}
                 className={`w-5 h-20 border border-border rounded-b transition-all ${
-                  isActive 
+                  isActive && isHighlighted(midiNote)
+                    ? 'bg-gradient-to-b from-amber-300 via-amber-400 to-amber-500 shadow-[inset_0_2px_4px_rgba(255,255,255,0.4),inset_0_-2px_4px_rgba(0,0,0,0.3)] border-amber-600'
+                    : isActive && isLeftHand(midiNote)
+                    ? 'bg-gradient-to-b from-blue-400 via-blue-500 to-blue-600 shadow-[inset_0_2px_4px_rgba(255,255,255,0.4),inset_0_-2px_4px_rgba(0,0,0,0.3)] border-blue-700'
+                    : isActive 
                     ? 'bg-gradient-to-b from-red-400 via-red-500 to-red-600 shadow-[inset_0_2px_4px_rgba(255,255,255,0.4),inset_0_-2px_4px_rgba(0,0,0,0.3)] border-red-700' 
+                    : isInScale(midiNote)
+                    ? 'bg-red-100 shadow-sm'
                     : 'bg-white shadow-sm'
-                }`}
+                } ${isInteractive ? 'cursor-pointer' : ''}`}
               />
             );
           })}
@@ -93,11 +142,18 @@ export function KeyboardDiagram({ notes, voicingName, noteNames }: KeyboardDiagr
             return (
               <div
                 key={`black-key-${blackKeyMidi}`}
+                onClick={isInteractive ? () => onKeyClick(blackKeyMidi!) : undefined}
                 className={`absolute w-3 h-12 rounded-b transition-all ${
-                  isActive 
+                  isActive && isHighlighted(blackKeyMidi!)
+                    ? 'bg-gradient-to-b from-amber-400 via-amber-500 to-amber-600 shadow-[inset_0_2px_4px_rgba(255,255,255,0.3),inset_0_-2px_4px_rgba(0,0,0,0.4)] border border-amber-700'
+                    : isActive && isLeftHand(blackKeyMidi!)
+                    ? 'bg-gradient-to-b from-blue-500 via-blue-600 to-blue-700 shadow-[inset_0_2px_4px_rgba(255,255,255,0.3),inset_0_-2px_4px_rgba(0,0,0,0.4)] border border-blue-800'
+                    : isActive 
                     ? 'bg-gradient-to-b from-red-500 via-red-600 to-red-700 shadow-[inset_0_2px_4px_rgba(255,255,255,0.3),inset_0_-2px_4px_rgba(0,0,0,0.4)] border border-red-800' 
+                    : isInScale(blackKeyMidi!)
+                    ? 'bg-red-300 shadow-md'
                     : 'bg-black shadow-md'
-                }`}
+                } ${isInteractive ? 'pointer-events-auto cursor-pointer' : ''}`}
                 style={{
                   left: `${leftPosition}px`,
                   transform: 'translateX(-50%)'
@@ -117,10 +173,15 @@ export function KeyboardDiagram({ notes, voicingName, noteNames }: KeyboardDiagr
                 <div
                   key={`label-${midiNote}`}
                   className={`w-5 text-center text-xs ${
-                    isActive ? 'text-red-600' : 'text-muted-foreground'
+                    isActive && isHighlighted(midiNote)
+                      ? 'text-amber-600'
+                      : isActive && isLeftHand(midiNote)
+                      ? 'text-blue-600'
+                      : isActive ? 'text-red-600'
+                      : isInScale(midiNote) ? 'text-red-300' : 'text-muted-foreground'
                   }`}
                 >
-                  {isActive ? getNoteName(midiNote) : ''}
+                  {isActive || isInScale(midiNote) ? getNoteName(midiNote) : ''}
                 </div>
               );
             })}
@@ -140,8 +201,9 @@ export function KeyboardDiagram({ notes, voicingName, noteNames }: KeyboardDiagr
               
               const hasBlackKey = blackKeyMidi && blackKeys.includes(blackKeyMidi);
               const isActive = blackKeyMidi && notes.includes(blackKeyMidi);
+              const isScaleNote = blackKeyMidi && isInScale(blackKeyMidi);
               
-              if (!hasBlackKey || !isActive) return null;
+              if (!hasBlackKey || !(isActive || isScaleNote)) return null;
               
               const whiteKeyWidth = 20;
               const gapWidth = 1;
@@ -150,7 +212,13 @@ export function KeyboardDiagram({ notes, voicingName, noteNames }: KeyboardDiagr
               return (
                 <div
                   key={`black-label-${blackKeyMidi}`}
-                  className="absolute text-xs text-red-600"
+                  className={`absolute text-xs ${
+                    isScaleNote
+                      ? 'text-red-300'
+                      : isHighlighted(blackKeyMidi!)
+                      ? 'text-amber-600'
+                      : isLeftHand(blackKeyMidi!) ? 'text-blue-600' : 'text-red-600'
+                  }`}
                   style={{
                     left: `${leftPosition}px`,
                     transform: 'translateX(-50%)'
@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { ChordData } from '../data/chordDatabase';
+import { chordRootName } from '../data/chordParser';
+import { getNegativeChord } from '../data/negativeHarmony';
+import { NoteLabelMode } from '../data/noteLabels';
+import { KeyContext, formatNoteName } from '../data/spelling';
+import { KeyboardDiagram } from './KeyboardDiagram';
+import { Button } from './ui/button';
+
+interface NegativeHarmonyPanelProps {
+  chord: ChordData;
+  keyContext?: KeyContext;                  // Key whose tonic–dominant axis the chord is mirrored around
+  labelMode?: NoteLabelMode;
+  onAdd?: (chord: ChordData) => void;       // Adds the mirrored chord, where the tab has a collection
+}
+
+// Toggles a side-by-side view of a chord and its negative-harmony mirror in the key
+export function NegativeHarmonyPanel({ chord, keyContext, labelMode, onAdd }: NegativeHarmonyPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!keyContext) return null;
+
+  // Mirrored on every render, so it always follows the current chord and axis
+  const negative = isOpen ? getNegativeChord(chord, keyContext) : null;
+  const mirroredChord = negative?.chord;
+
+  return (
+    <div className="space-y-3">
+      <Button variant={isOpen ? 'default' : 'outline'} size="sm" onClick={() => setIsOpen(!isOpen)}>
+        Negative harmony
+      </Button>
+      {isOpen && negative && (
+        <div className="flex flex-wrap items-end gap-6">
+          <KeyboardDiagram
+            notes={chord.midiNotes}
+            noteNames={chord.notes}
+            voicingName={`Original: ${chord.name}`}
+            keyContext={keyContext}
+            labelMode={labelMode}
+            root={chordRootName(chord) ?? undefined}
+          />
+          <KeyboardDiagram
+            notes={negative.midiNotes}
+            noteNames={negative.notes}
+            voicingName={`Negative: ${negative.name ?? negative.notes.map(formatNoteName).join(' ')}`}
+            keyContext={keyContext}
+            labelMode={labelMode}
+            root={mirroredChord ? chordRootName(mirroredChord) ?? undefined : undefined}
+          />
+          {onAdd && mirroredChord && (
+            <Button variant="ghost" size="sm" onClick={() => onAdd(mirroredChord)}>
+              Add {mirroredChord.name}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { ChordData } from '../data/chordDatabase';
+import { chordRootName } from '../data/chordParser';
+import { NEO_RIEMANNIAN_TRANSFORMS, chainTransforms, isTransformableTriad } from '../data/neoRiemannian';
+import { NoteLabelMode } from '../data/noteLabels';
+import { KeyContext, formatNoteName } from '../data/spelling';
+import { KeyboardDiagram } from './KeyboardDiagram';
+import { Button } from './ui/button';
+
+interface NeoRiemannianPanelProps {
+  chord: ChordData;
+  keyContext?: KeyContext;
+  labelMode?: NoteLabelMode;
+  onAddSequence: (chords: ChordData[]) => void;
+}
+
+// P/L/R explorer for a major or minor triad: each click chains a transformation,
+// drawn as a row of diagrams with the moving voice highlighted. The resulting
+// triads can be added to the collection in order.
+export function NeoRiemannianPanel({ chord, keyContext, labelMode, onAddSequence }: NeoRiemannianPanelProps) {
+  const [chain, setChain] = useState<string[]>([]);
+
+  if (!isTransformableTriad(chord)) return null;
+
+  const steps = chainTransforms(chord, chain);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Transform:</span>
+        {NEO_RIEMANNIAN_TRANSFORMS.map(({ id, name }) => (
+          <Button key={id} variant="outline" size="sm" onClick={() => setChain([...chain, id])} title={name}>
+            {id}
+          </Button>
+        ))}
+        {chain.length > 0 && (
+          <>
+            <Button variant="ghost" size="sm" onClick={() => setChain(chain.slice(0, -1))}>
+              Undo
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setChain([])}>
+              Clear
+            </Button>
+            <Button size="sm" onClick={() => onAddSequence(steps.map(step => step.chord))}>
+              Add sequence
+            </Button>
+          </>
+        )}
+      </div>
+      {steps.length > 0 && (
+        <div className="flex flex-wrap items-end gap-4">
+          <KeyboardDiagram
+            notes={chord.midiNotes}
+            noteNames={chord.notes}
+            voicingName={formatNoteName(chord.name)}
+            keyContext={keyContext}
+            labelMode={labelMode}
+            root={chordRootName(chord) ?? undefined}
+          />
+          {steps.map((step, index) => (
+            <div key={index} className="flex items-end gap-4">
+              <ArrowRight className="w-4 h-4 mb-10 text-muted-foreground" />
+              <KeyboardDiagram
+                notes={step.notes}
+                noteNames={step.noteNames}
+                voicingName={`${step.transform} · ${formatNoteName(step.chord.name)}`}
+                highlightedNotes={step.movingNotes}
+                keyContext={keyContext}
+                labelMode={labelMode}
+                root={chordRootName(step.chord) ?? undefined}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { NOTE_LABEL_MODES, NoteLabelMode } from '../data/noteLabels';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+interface NoteLabelSelectProps {
+  value: NoteLabelMode;
+  onChange: (mode: NoteLabelMode) => void;
+}
+
+// Picker for the naming system used under the keys of every diagram
+export function NoteLabelSelect({ value, onChange }: NoteLabelSelectProps) {
+  return (
+    <Select value={value} onValueChange={(mode) => onChange(mode as NoteLabelMode)}>
+      <SelectTrigger size="sm" className="w-[160px]" aria-label="Key labels">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {NOTE_LABEL_MODES.map(({ value: mode, label }) => (
+          <SelectItem key={mode} value={mode}>{label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
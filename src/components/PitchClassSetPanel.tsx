@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { ChordData } from '../data/chordDatabase';
+import { analyzePitchClassSet, findSetClassChords, formatPitchClass, pitchClassKey } from '../data/pitchClassSets';
+import { formatNoteName } from '../data/spelling';
+import { Button } from './ui/button';
+
+interface PitchClassSetPanelProps {
+  chord: ChordData;
+}
+
+const formatSet = (set: number[]) => set.map(formatPitchClass).join(', ');
+
+// Expandable set-theory analysis of a chord: pitch-class set, normal and prime form,
+// Forte number, interval-class vector and the database chords in the same set class
+export function PitchClassSetPanel({ chord }: PitchClassSetPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const analysis = analyzePitchClassSet(chord.midiNotes);
+
+  const related = isOpen ? findSetClassChords(chord) : [];
+
+  // Related chords grouped by quality, e.g. "Minor Triad: Cm, C#m, ..."
+  const byQuality = new Map<string, string[]>();
+  related.forEach((other) => {
+    byQuality.set(other.quality.name, [...(byQuality.get(other.quality.name) ?? []), formatNoteName(other.name)]);
+  });
+
+  return (
+    <div className="space-y-3">
+      <Button variant={isOpen ? 'default' : 'outline'} size="sm" onClick={() => setIsOpen(!isOpen)}>
+        Set analysis
+      </Button>
+      {isOpen && (
+        <div className="space-y-2 text-sm">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+            <dt className="text-muted-foreground">Pitch-class set</dt>
+            <dd>{`{${formatSet(analysis.pitchClasses)}}`}</dd>
+            <dt className="text-muted-foreground">Normal form</dt>
+            <dd>[{formatSet(analysis.normalForm)}]</dd>
+            <dt className="text-muted-foreground">Prime form</dt>
+            <dd>({pitchClassKey(analysis.primeForm)})</dd>
+            <dt className="text-muted-foreground">Forte number</dt>
+            <dd>{analysis.forteNumber ?? '—'}</dd>
+            <dt className="text-muted-foreground">Interval-class vector</dt>
+            <dd>&lt;{analysis.intervalVector.join('')}&gt;</dd>
+          </dl>
+          <div>
+            <div className="text-muted-foreground">Same set class</div>
+            {byQuality.size === 0 && <div>No other chords in the database</div>}
+            {[...byQuality].map(([quality, names]) => (
+              <div key={quality}>
+                <span className="font-medium">{quality}:</span> {names.join(', ')}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
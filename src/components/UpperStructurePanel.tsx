@@ -0,0 +1,59 @@
+import { ChordData } from '../data/chordDatabase';
+import { ALTERED_TENSIONS, getUpperStructures, polychordTensions } from '../data/upperStructures';
+import { Badge } from './ui/badge';
+
+interface UpperStructurePanelProps {
+  chord: ChordData;
+  onAdd: (polychord: ChordData) => void;
+}
+
+// Altered tensions are filled in; natural ones are outlined
+function TensionBadges({ tensions }: { tensions: string[] }) {
+  return (
+    <>
+      {tensions.map(tension => (
+        <Badge key={tension} variant={ALTERED_TENSIONS.includes(tension) ? 'default' : 'outline'}>
+          {tension}
+        </Badge>
+      ))}
+    </>
+  );
+}
+
+// Tensions of a polychord over its lower chord, or the upper-structure triads
+// available over a dominant chord. Clicking an upper structure adds its polychord.
+export function UpperStructurePanel({ chord, onAdd }: UpperStructurePanelProps) {
+  if (chord.polychord) {
+    const tensions = polychordTensions(chord);
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-muted-foreground">
+          Tensions over {chord.polychord.lower.name}:
+        </span>
+        {tensions.length > 0 ? <TensionBadges tensions={tensions} /> : <span>none</span>}
+      </div>
+    );
+  }
+
+  const upperStructures = getUpperStructures(chord);
+  if (upperStructures.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <span className="text-muted-foreground">Upper structures:</span>
+      {upperStructures.map(({ numeral, polychord, tensions }) => (
+        <button
+          key={numeral}
+          type="button"
+          onClick={() => onAdd(polychord)}
+          className="flex items-center gap-1 border rounded-md px-2 py-1 hover:bg-muted"
+          title={`Add ${polychord.name}`}
+        >
+          <span className="font-medium">{numeral}</span>
+          <span className="text-muted-foreground">{polychord.polychord?.upper.name}</span>
+          <TensionBadges tensions={tensions} />
+        </button>
+      ))}
+    </div>
+  );
+}
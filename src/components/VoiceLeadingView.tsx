@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { ChordData } from '../data/chordDatabase';
+import { chordRootName } from '../data/chordParser';
+import { NoteLabelMode } from '../data/noteLabels';
+import {
+  DEFAULT_VOICE_LEADING_OPTIONS,
+  VoiceLeadingOptions,
+  voiceLeadSequence,
+} from '../data/voiceLeading';
+import { KeyContext } from '../data/spelling';
+import { KeyboardDiagram } from './KeyboardDiagram';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+export interface VoiceLeadingItem {
+  id: string;
+  title: string;     // Heading shown above the diagram, e.g. "G7" or "V7/ii · A7"
+  chord: ChordData;
+}
+
+interface VoiceLeadingViewProps {
+  items: VoiceLeadingItem[];
+  keyContext?: KeyContext;
+  labelMode?: NoteLabelMode;
+}
+
+// Top-voice constraint choices; "any" leaves the top voice free
+const TOP_VOICE_OPTIONS: { value: string; label: string; maxLeap: number | null }[] = [
+  { value: 'any', label: 'Top voice: free', maxLeap: null },
+  { value: 'hold', label: 'Top voice: hold', maxLeap: 0 },
+  { value: 'step', label: 'Top voice: step (≤ 2)', maxLeap: 2 },
+  { value: 'third', label: 'Top voice: ≤ 3rd', maxLeap: 4 },
+];
+
+// The chords in order, each voiced to move as little as possible from the one before.
+// Moving voices are highlighted; held notes keep the normal colour.
+export function VoiceLeadingView({ items, keyContext, labelMode }: VoiceLeadingViewProps) {
+  const [options, setOptions] = useState<VoiceLeadingOptions>(DEFAULT_VOICE_LEADING_OPTIONS);
+
+  const sequence = voiceLeadSequence(items.map(item => item.chord), options);
+  const totalMovement = sequence.reduce((total, step) => total + step.movement, 0);
+
+  const topVoice = TOP_VOICE_OPTIONS.find(option => option.maxLeap === options.maxTopVoiceLeap)?.value ?? 'any';
+
+  const handleTopVoiceChange = (value: string) => {
+    const maxLeap = TOP_VOICE_OPTIONS.find(option => option.value === value)?.maxLeap ?? null;
+    setOptions({ ...options, maxTopVoiceLeap: maxLeap });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="keep-common-tones"
+            checked={options.keepCommonTones}
+            onCheckedChange={(checked) => setOptions({ ...options, keepCommonTones: checked })}
+          />
+          <Label htmlFor="keep-common-tones">Keep common tones</Label>
+        </div>
+        <Select value={topVoice} onValueChange={handleTopVoiceChange}>
+          <SelectTrigger size="sm" className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TOP_VOICE_OPTIONS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground">
+          Total movement: {totalMovement} semitones
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        {sequence.map((step, index) => (
+          <div key={items[index].id} className="flex items-end gap-4">
+            {index > 0 && <ArrowRight className="w-4 h-4 mb-10 text-muted-foreground" />}
+            <div className="space-y-1">
+              <h3 className="text-lg font-medium">{items[index].title}</h3>
+              <KeyboardDiagram
+                notes={step.voicing.notes}
+                voicingName={index === 0 ? step.voicing.name : `${step.voicing.name} · ${step.movement} st`}
+                noteNames={step.voicing.noteNames}
+                keyContext={keyContext}
+                highlightedNotes={step.movingNotes}
+                labelMode={labelMode}
+                root={chordRootName(step.chord) ?? undefined}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { VOICING_FAMILIES, VoicingFamily } from '../data/voicingFamilies';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+interface VoicingFamilySelectProps {
+  value: VoicingFamily;
+  onChange: (family: VoicingFamily) => void;
+}
+
+// Per-chord picker for the voicing family shown in its diagrams
+export function VoicingFamilySelect({ value, onChange }: VoicingFamilySelectProps) {
+  return (
+    <Select value={value} onValueChange={(family) => onChange(family as VoicingFamily)}>
+      <SelectTrigger size="sm" className="w-[130px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {VOICING_FAMILIES.map(({ value: family, label }) => (
+          <SelectItem key={family} value={family}>{label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,105 @@
+// Cadences and drill patterns (ii–V–I, authentic, plagal, half, deceptive) built in
+// any major or minor key and voice-led for practice in all twelve keys
+import { ChordData } from './chordDatabase';
+import { CHORD_CHART, KeyData } from './chordData';
+import { parseChordSymbol } from './chordParser';
+import { getCircleOfFifths } from './circleOfFifths';
+import { getRomanNumeral } from './romanNumerals';
+import { notePitchClass } from './spelling';
+import { VoiceLedChord, voiceLeadSequence } from './voiceLeading';
+
+export type CadenceMode = 'major' | 'minor';
+
+// One chord of a pattern: a scale degree of the key (0 = tonic) and the chord suffix on it
+interface CadenceChord {
+  degree: number;
+  suffix: string;
+}
+
+export interface CadencePattern {
+  id: string;
+  name: string;
+  major: CadenceChord[];
+  minor: CadenceChord[];  // Minor-key variant, e.g. iiø7–V7–i7
+}
+
+export interface CadenceStep {
+  numeral: string;
+  chord: ChordData;
+}
+
+export interface CadenceSequence {
+  key: KeyData;
+  steps: CadenceStep[];
+  voicings: VoiceLedChord[];  // One voice-led voicing per step
+}
+
+export const CADENCE_PATTERNS: CadencePattern[] = [
+  {
+    id: 'ii-v-i',
+    name: 'ii–V–I',
+    major: [{ degree: 1, suffix: 'm7' }, { degree: 4, suffix: '7' }, { degree: 0, suffix: 'maj7' }],
+    minor: [{ degree: 1, suffix: 'm7b5' }, { degree: 4, suffix: '7' }, { degree: 0, suffix: 'm7' }],
+  },
+  {
+    id: 'authentic',
+    name: 'Authentic cadence',
+    major: [{ degree: 3, suffix: '' }, { degree: 4, suffix: '7' }, { degree: 0, suffix: '' }],
+    minor: [{ degree: 3, suffix: 'm' }, { degree: 4, suffix: '7' }, { degree: 0, suffix: 'm' }],
+  },
+  {
+    id: 'plagal',
+    name: 'Plagal cadence',
+    major: [{ degree: 0, suffix: '' }, { degree: 3, suffix: '' }, { degree: 0, suffix: '' }],
+    minor: [{ degree: 0, suffix: 'm' }, { degree: 3, suffix: 'm' }, { degree: 0, suffix: 'm' }],
+  },
+  {
+    id: 'half',
+    name: 'Half cadence',
+    major: [{ degree: 0, suffix: '' }, { degree: 1, suffix: 'm' }, { degree: 4, suffix: '' }],
+    minor: [{ degree: 0, suffix: 'm' }, { degree: 3, suffix: 'm' }, { degree: 4, suffix: '' }],
+  },
+  {
+    id: 'deceptive',
+    name: 'Deceptive cadence',
+    major: [{ degree: 0, suffix: '' }, { degree: 4, suffix: '7' }, { degree: 5, suffix: 'm' }],
+    minor: [{ degree: 0, suffix: 'm' }, { degree: 4, suffix: '7' }, { degree: 5, suffix: '' }],
+  },
+];
+
+export function getCadencePattern(id: string): CadencePattern {
+  return CADENCE_PATTERNS.find(pattern => pattern.id === id) ?? CADENCE_PATTERNS[0];
+}
+
+// The twelve major or minor keys in descending fifths from C (C, F, B♭, ...),
+// the usual order for drilling a pattern round the keys
+export function getCadenceKeys(mode: CadenceMode): KeyData[] {
+  const circle = getCircleOfFifths();
+  const descending = [0, ...Array.from({ length: 11 }, (_, index) => 11 - index)];
+
+  if (mode === 'major') return descending.map(position => circle[position].major);
+
+  // Minor keys on the same tonics as the majors (spelled as in the key list, e.g. D♯m)
+  const minors = CHORD_CHART.filter(key => key.type === 'Minor');
+  return descending.map((position) => {
+    const tonic = notePitchClass(circle[position].major.scale[0]);
+    return minors.find(key => notePitchClass(key.scale[0]) === tonic) as KeyData;
+  });
+}
+
+// A pattern's chords in a key; minor keys use the pattern's minor variant
+export function buildCadence(pattern: CadencePattern, key: KeyData): CadenceStep[] {
+  const chords = key.type === 'Minor' ? pattern.minor : pattern.major;
+
+  return chords.flatMap(({ degree, suffix }) => {
+    const chord = parseChordSymbol(`${key.scale[degree]}${suffix}`);
+    if (!chord) return [];
+    return [{ numeral: getRomanNumeral(key, chord.name)?.numeral ?? '?', chord }];
+  });
+}
+
+// A pattern in one key, voiced so each chord moves as little as possible from the last
+export function generateCadence(pattern: CadencePattern, key: KeyData): CadenceSequence {
+  const steps = buildCadence(pattern, key);
+  return { key, steps, voicings: voiceLeadSequence(steps.map(step => step.chord)) };
+}
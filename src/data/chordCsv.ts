@@ -0,0 +1,154 @@
+// Reads chords.csv and validates every row: one field per header column, all fields
+// present, a legal chord name, known note names, notes and type/extension columns that
+// match the quality named by the chord symbol, and no duplicate names. Rows that fail
+// are left out and reported rather than dropped silently.
+import { parseChordSymbol } from './chordParser';
+import { CHORD_FAMILY_LABELS, ChordQuality } from './chordQualities';
+import { readCsv } from './csv';
+import { formatNoteName, notePitchClass } from './spelling';
+
+export const CHORD_CSV_COLUMNS = ['chord_name', 'notes', 'chord_type', 'chord_extension'] as const;
+
+type ChordCsvColumn = typeof CHORD_CSV_COLUMNS[number];
+
+export interface ChordCsvError {
+  line: number;              // 1-based line in the file; 0 for problems with the file as a whole
+  name?: string;             // Chord name of the row, when it has one
+  column?: ChordCsvColumn;   // Offending column, when the problem is in one field
+  message: string;
+}
+
+export interface ChordCsvRow {
+  line: number;
+  name: string;
+  notes: string[];
+  midiNotes: number[];
+  quality: ChordQuality;
+}
+
+export interface ChordCsvResult {
+  rows: ChordCsvRow[];
+  errors: ChordCsvError[];
+}
+
+// One-line description of an error, e.g. "Line 12 (Cmaj7): notes: ..."
+export function formatChordCsvError(error: ChordCsvError): string {
+  const location = error.line > 0 ? `Line ${error.line}` : 'chords.csv';
+  const name = error.name ? ` (${error.name})` : '';
+  const column = error.column ? `${error.column}: ` : '';
+  return `${location}${name}: ${column}${error.message}`;
+}
+
+// Convert note name to MIDI number (C4 = 60); rows are validated first, so every name parses
+function noteToMidi(noteName: string): number {
+  return (notePitchClass(noteName) ?? 0) + 60;
+}
+
+// Convert chord notes to MIDI preserving voicing order
+// Ensures all notes are in ascending order by moving them up octaves as needed
+function convertChordNotesToMidi(notes: string[]): number[] {
+  if (notes.length === 0) return [];
+  
+  const midiNotes: number[] = [];
+  
+  // Convert first note (root) normally
+  const rootMidi = noteToMidi(notes[0]);
+  midiNotes.push(rootMidi);
+  
+  // For subsequent notes, ensure each is higher than the previous
+  for (let i = 1; i < notes.length; i++) {
+    let noteMidi = noteToMidi(notes[i]);
+    
+    // Keep moving the note up octaves until it's higher than the previous note
+    while (noteMidi <= midiNotes[midiNotes.length - 1]) {
+      noteMidi += 12;
+    }
+    
+    midiNotes.push(noteMidi);
+  }
+  
+  return midiNotes;
+}
+
+const formatNotes = (notes: string[]) => notes.map(formatNoteName).join(', ');
+
+export function parseChordCsv(text: string): ChordCsvResult {
+  const { records, errors: readErrors } = readCsv(text);
+  const errors: ChordCsvError[] = [...readErrors];
+  const rows: ChordCsvRow[] = [];
+
+  const [header, ...body] = records;
+  if (!header) {
+    errors.push({ line: 0, message: 'File is empty' });
+    return { rows, errors };
+  }
+
+  // Columns are found by name, so they may come in any order and extra columns are ignored
+  const headerNames = header.fields.map(field => field.toLowerCase());
+  const columnIndex = {} as Record<ChordCsvColumn, number>;
+  CHORD_CSV_COLUMNS.forEach((column) => {
+    columnIndex[column] = headerNames.indexOf(column);
+    if (columnIndex[column] < 0) {
+      errors.push({ line: header.line, column, message: 'Missing column in the header' });
+    }
+  });
+  if (errors.some(error => error.line === header.line)) return { rows, errors };
+
+  const firstLineByName = new Map<string, number>();
+
+  body.forEach(({ line, fields }) => {
+    const value = (column: ChordCsvColumn) => fields[columnIndex[column]] ?? '';
+    const name = value('chord_name');
+    const rowErrors: ChordCsvError[] = [];
+    const report = (message: string, column?: ChordCsvColumn) =>
+      rowErrors.push({ line, ...(name && { name }), ...(column && { column }), message });
+
+    if (fields.length !== header.fields.length) {
+      report(`Expected ${header.fields.length} fields, found ${fields.length}`);
+    }
+
+    CHORD_CSV_COLUMNS.forEach((column) => {
+      if (!value(column)) report('Empty field', column);
+    });
+
+    const notes = value('notes').split(',').map(note => note.trim()).filter(Boolean);
+    const unknownNotes = notes.filter(note => notePitchClass(note) === null);
+    if (unknownNotes.length > 0) report(`Unknown note name ${unknownNotes.join(', ')}`, 'notes');
+
+    const chord = name ? parseChordSymbol(name) : null;
+    if (name && !chord) report('Not a recognised chord symbol', 'chord_name');
+
+    if (chord && notes.length > 0 && unknownNotes.length === 0) {
+      const expected = chord.notes.map(notePitchClass);
+      const actual = notes.map(notePitchClass);
+      if (expected.length !== actual.length || expected.some((pitchClass, index) => pitchClass !== actual[index])) {
+        report(`${formatNotes(notes)} do not match ${chord.quality.name} (${formatNotes(chord.notes)})`, 'notes');
+      }
+    }
+
+    // The descriptive columns must agree with the quality the chord symbol names
+    if (chord) {
+      const type = CHORD_FAMILY_LABELS[chord.quality.family];
+      if (value('chord_type') && value('chord_type') !== type) {
+        report(`${value('chord_type')} does not match ${name} (${type})`, 'chord_type');
+      }
+      if (value('chord_extension') && value('chord_extension') !== chord.quality.name) {
+        report(`${value('chord_extension')} does not match ${name} (${chord.quality.name})`, 'chord_extension');
+      }
+    }
+
+    if (name) {
+      const firstLine = firstLineByName.get(name);
+      if (firstLine !== undefined) report(`Duplicate of line ${firstLine}`, 'chord_name');
+      else firstLineByName.set(name, line);
+    }
+
+    if (rowErrors.length > 0 || !chord) {
+      errors.push(...rowErrors);
+      return;
+    }
+    rows.push({ line, name, notes, midiNotes: convertChordNotesToMidi(notes), quality: chord.quality });
+  });
+
+  return { rows, errors };
+}
@@ -1,73 +1,224 @@
-// Chord data based on the CHORD KEY CHART
+// Chord data based on the CHORD KEY CHART, generated from scale formulas
+import { ChordVoicing, calculateVoicings } from './chordVoicings';
+import { parseChordSymbol } from './chordParser';
+import { LETTERS, formatNoteName, notePitchClass, parseNoteName, spellScale } from './spelling';
+
+// Scales and modes that can be selected as keys
+export type ScaleType =
+  | 'Major' | 'Dorian' | 'Phrygian' | 'Lydian' | 'Mixolydian' | 'Minor' | 'Locrian'
+  | 'Harmonic Minor' | 'Locrian ♮6' | 'Ionian ♯5' | 'Dorian ♯4'
+  | 'Phrygian Dominant' | 'Lydian ♯2' | 'Super Locrian 𝄫7'
+  | 'Melodic Minor' | 'Dorian ♭2' | 'Lydian Augmented' | 'Lydian Dominant'
+  | 'Mixolydian ♭6' | 'Locrian ♮2' | 'Altered';
+
 export interface KeyData {
   name: string;
-  type: 'Major' | 'Minor';
+  type: ScaleType;
+  scale: string[];
   chords: string[];
 }
 
-export const CHORD_CHART: KeyData[] = [
-  // Major Keys
-  { name: 'C', type: 'Major', chords: ['C', 'Dm', 'Em', 'F', 'G', 'Am', 'B°'] },
-  { name: 'D♭', type: 'Major', chords: ['D♭', 'E♭m', 'Fm', 'G♭', 'A♭', 'B♭m', 'C°'] },
-  { name: 'D', type: 'Major', chords: ['D', 'Em', 'F♯m', 'G', 'A', 'Bm', 'C♯°'] },
-  { name: 'E♭', type: 'Major', chords: ['E♭', 'Fm', 'Gm', 'A♭', 'B♭', 'Cm', 'D°'] },
-  { name: 'E', type: 'Major', chords: ['E', 'F♯m', 'G♯m', 'A', 'B', 'C♯m', 'D♯°'] },
-  { name: 'F', type: 'Major', chords: ['F', 'Gm', 'Am', 'B♭', 'C', 'Dm', 'E°'] },
-  { name: 'G♭', type: 'Major', chords: ['G♭', 'A♭m', 'B♭m', 'B', 'D♭', 'E♭m', 'F°'] },
-  { name: 'G', type: 'Major', chords: ['G', 'Am', 'Bm', 'C', 'D', 'Em', 'F♯°'] },
-  { name: 'A♭', type: 'Major', chords: ['A♭', 'B♭m', 'Cm', 'D♭', 'E♭', 'Fm', 'G°'] },
-  { name: 'A', type: 'Major', chords: ['A', 'Bm', 'C♯m', 'D', 'E', 'F♯m', 'G♯°'] },
-  { name: 'B♭', type: 'Major', chords: ['B♭', 'Cm', 'Dm', 'E♭', 'F', 'Gm', 'A°'] },
-  { name: 'B', type: 'Major', chords: ['B', 'C♯m', 'D♯m', 'E', 'F♯', 'G♯m', 'A♯°'] },
-  
-  // Minor Keys
-  { name: 'Am', type: 'Minor', chords: ['Am', 'B°', 'C', 'Dm', 'Em', 'F', 'G'] },
-  { name: 'B♭m', type: 'Minor', chords: ['B♭m', 'C°', 'D♭', 'E♭m', 'Fm', 'G♭', 'A♭'] },
-  { name: 'Bm', type: 'Minor', chords: ['Bm', 'C♯°', 'D', 'Em', 'F♯m', 'G', 'A'] },
-  { name: 'Cm', type: 'Minor', chords: ['Cm', 'D°', 'E♭', 'Fm', 'Gm', 'A♭', 'B♭'] },
-  { name: 'C♯m', type: 'Minor', chords: ['C♯m', 'D♯°', 'E', 'F♯m', 'G♯m', 'A', 'B'] },
-  { name: 'Dm', type: 'Minor', chords: ['Dm', 'E°', 'F', 'Gm', 'Am', 'B♭', 'C'] },
-  { name: 'D♯m', type: 'Minor', chords: ['D♯m', 'E♯°', 'F♯', 'G♯m', 'A♯m', 'B', 'C♯'] },
-  { name: 'Em', type: 'Minor', chords: ['Em', 'F♯°', 'G', 'Am', 'Bm', 'C', 'D'] },
-  { name: 'Fm', type: 'Minor', chords: ['Fm', 'G°', 'A♭', 'B♭m', 'Cm', 'D♭', 'E♭'] },
-  { name: 'F♯m', type: 'Minor', chords: ['F♯m', 'G♯°', 'A', 'Bm', 'C♯m', 'D', 'E'] },
-  { name: 'Gm', type: 'Minor', chords: ['Gm', 'A°', 'B♭', 'Cm', 'Dm', 'E♭', 'F'] },
-  { name: 'G♯m', type: 'Minor', chords: ['G♯m', 'A♯°', 'B', 'C♯m', 'D♯m', 'E', 'F♯'] },
+interface ScaleDefinition {
+  type: ScaleType;
+  intervals: number[];
+  tonics?: string[]; // Explicit tonic spellings; otherwise the spelling with the fewest accidentals
+}
+
+// Rotate a parent scale to start on one of its degrees
+function modeOf(parent: number[], degree: number): number[] {
+  const rotated = parent.slice(degree).concat(parent.slice(0, degree));
+  return rotated.map(interval => (interval - parent[degree] + 12) % 12);
+}
+
+export const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+const HARMONIC_MINOR_SCALE = [0, 2, 3, 5, 7, 8, 11];
+const MELODIC_MINOR_SCALE = [0, 2, 3, 5, 7, 9, 11];
+
+export const SCALE_DEFINITIONS: ScaleDefinition[] = [
+  { type: 'Major', intervals: MAJOR_SCALE },
+  {
+    type: 'Minor',
+    intervals: modeOf(MAJOR_SCALE, 5),
+    tonics: ['A', 'B♭', 'B', 'C', 'C♯', 'D', 'D♯', 'E', 'F', 'F♯', 'G', 'G♯'],
+  },
+  { type: 'Dorian', intervals: modeOf(MAJOR_SCALE, 1) },
+  { type: 'Phrygian', intervals: modeOf(MAJOR_SCALE, 2) },
+  { type: 'Lydian', intervals: modeOf(MAJOR_SCALE, 3) },
+  { type: 'Mixolydian', intervals: modeOf(MAJOR_SCALE, 4) },
+  { type: 'Locrian', intervals: modeOf(MAJOR_SCALE, 6) },
+  { type: 'Harmonic Minor', intervals: HARMONIC_MINOR_SCALE },
+  { type: 'Locrian ♮6', intervals: modeOf(HARMONIC_MINOR_SCALE, 1) },
+  { type: 'Ionian ♯5', intervals: modeOf(HARMONIC_MINOR_SCALE, 2) },
+  { type: 'Dorian ♯4', intervals: modeOf(HARMONIC_MINOR_SCALE, 3) },
+  { type: 'Phrygian Dominant', intervals: modeOf(HARMONIC_MINOR_SCALE, 4) },
+  { type: 'Lydian ♯2', intervals: modeOf(HARMONIC_MINOR_SCALE, 5) },
+  { type: 'Super Locrian 𝄫7', intervals: modeOf(HARMONIC_MINOR_SCALE, 6) },
+  { type: 'Melodic Minor', intervals: MELODIC_MINOR_SCALE },
+  { type: 'Dorian ♭2', intervals: modeOf(MELODIC_MINOR_SCALE, 1) },
+  { type: 'Lydian Augmented', intervals: modeOf(MELODIC_MINOR_SCALE, 2) },
+  { type: 'Lydian Dominant', intervals: modeOf(MELODIC_MINOR_SCALE, 3) },
+  { type: 'Mixolydian ♭6', intervals: modeOf(MELODIC_MINOR_SCALE, 4) },
+  { type: 'Locrian ♮2', intervals: modeOf(MELODIC_MINOR_SCALE, 5) },
+  { type: 'Altered', intervals: modeOf(MELODIC_MINOR_SCALE, 6) },
+];
+
+// Groups for the key selector, in display order
+export const KEY_GROUPS: { heading: string; types: ScaleType[] }[] = [
+  { heading: 'Major Keys', types: ['Major'] },
+  { heading: 'Minor Keys', types: ['Minor'] },
+  { heading: 'Modes', types: ['Dorian', 'Phrygian', 'Lydian', 'Mixolydian', 'Locrian'] },
+  {
+    heading: 'Harmonic Minor Modes',
+    types: ['Harmonic Minor', 'Locrian ♮6', 'Ionian ♯5', 'Dorian ♯4', 'Phrygian Dominant', 'Lydian ♯2', 'Super Locrian 𝄫7'],
+  },
+  {
+    heading: 'Melodic Minor Modes',
+    types: ['Melodic Minor', 'Dorian ♭2', 'Lydian Augmented', 'Lydian Dominant', 'Mixolydian ♭6', 'Locrian ♮2', 'Altered'],
+  },
+];
+
+// Count accidentals in a spelled scale; double accidentals and repeated letters
+// count extra so they are avoided
+function accidentalWeight(scale: string[]): number {
+  const letters = new Set(scale.map(note => note[0]));
+  const penalty = letters.size === scale.length ? 0 : 100;
+
+  return scale.reduce((total, note) => {
+    const accidental = Math.abs(parseNoteName(note)?.accidental ?? 0);
+    return total + (accidental > 1 ? 10 : accidental);
+  }, penalty);
+}
+
+// Choose the tonic spelling for a pitch class with the fewest accidentals
+// (natural tonics, then flat tonics, win ties)
+function chooseTonic(pitchClass: number, intervals: number[]): string {
+  const candidates = LETTERS
+    .flatMap(letter => [letter, `${letter}#`, `${letter}b`])
+    .filter(name => notePitchClass(name) === pitchClass);
+
+  return candidates.sort((a, b) => {
+    const weight = accidentalWeight(spellScale(a, intervals)) - accidentalWeight(spellScale(b, intervals));
+    if (weight !== 0) return weight;
+    if (a.length !== b.length) return a.length - b.length;
+    return (b.endsWith('b') ? 1 : 0) - (a.endsWith('b') ? 1 : 0);
+  })[0];
+}
+
+// Harmonic layers the By Key tab can show for each scale degree
+export type HarmonicLayer = 'triads' | 'sevenths' | 'ninths' | 'sus2' | 'sus4' | 'add9' | 'sixths';
+
+export const HARMONIC_LAYERS: { value: HarmonicLayer; label: string }[] = [
+  { value: 'triads', label: 'Triads' },
+  { value: 'sevenths', label: '7ths' },
+  { value: 'ninths', label: '9ths' },
+  { value: 'sus2', label: 'Sus2' },
+  { value: 'sus4', label: 'Sus4' },
+  { value: 'add9', label: 'Add9' },
+  { value: 'sixths', label: '6ths' },
 ];
 
-// Note to MIDI number mapping
-export const NOTE_TO_MIDI: { [key: string]: number } = {
-  'C': 60, 'C♯': 61, 'D♭': 61, 'D': 62, 'D♯': 63, 'E♭': 63,
-  'E': 64, 'E♯': 65, 'F': 65, 'F♯': 66, 'G♭': 66, 'G': 67,
-  'G♯': 68, 'A♭': 68, 'A': 69, 'A♯': 70, 'B♭': 70, 'B': 71,
+// A chord built on one degree of a key (degree 0 = tonic)
+export interface DiatonicChord {
+  degree: number;
+  chord: string;
+}
+
+// Triad and seventh qualities keyed by semitones above the root ("third,fifth[,seventh]")
+const TRIAD_SUFFIXES: { [intervals: string]: string } = {
+  '4,7': '', '3,7': 'm', '3,6': '°', '4,8': '+', '4,6': '(♭5)', '3,8': 'm(♯5)',
 };
 
+const SEVENTH_SUFFIXES: { [intervals: string]: string } = {
+  '4,7,11': 'maj7', '4,7,10': '7', '3,7,10': 'm7', '3,6,10': 'm7♭5',
+  '3,6,9': '°7', '3,7,11': 'm(maj7)', '4,8,11': 'maj7♯5', '4,8,10': '+7',
+};
+
+// Build the chord on one scale degree by stacking the key's own scale tones.
+// Added-tone layers (sus, add9, 6ths) return null on degrees where the scale
+// doesn't produce the standard chord (e.g. IV sus4 in major has a ♯4).
+function buildDiatonicChord(scale: string[], degree: number, layer: HarmonicLayer): string | null {
+  const pitchClasses = scale.map(note => parseNoteName(note)?.pitchClass ?? 0);
+  const interval = (step: number) =>
+    (pitchClasses[(degree + step) % scale.length] - pitchClasses[degree] + 12) % 12;
+
+  const root = scale[degree];
+  const [second, third, fourth, fifth, sixth, seventh] = [1, 2, 3, 4, 5, 6].map(interval);
+  const triad = TRIAD_SUFFIXES[`${third},${fifth}`];
+  const seventhChord = SEVENTH_SUFFIXES[`${third},${fifth},${seventh}`];
+
+  switch (layer) {
+    case 'triads':
+      return triad !== undefined ? root + triad : null;
+    case 'sevenths':
+      return seventhChord !== undefined ? root + seventhChord : null;
+    case 'ninths':
+      if (seventhChord === undefined) return null;
+      if (second === 2) return root + seventhChord.replace('7', '9');
+      return root + seventhChord + (second === 1 ? '♭9' : '♯9');
+    case 'sus2':
+      return second === 2 && fifth === 7 ? `${root}sus2` : null;
+    case 'sus4':
+      return fourth === 5 && fifth === 7 ? `${root}sus4` : null;
+    case 'add9':
+      if (triad === undefined || second !== 2) return null;
+      return triad === '' ? `${root}add9` : `${root}${triad}(add9)`;
+    case 'sixths':
+      if ((triad !== '' && triad !== 'm') || sixth !== 9) return null;
+      return `${root}${triad}6`;
+  }
+}
+
+// One key: a tonic spelling and scale type, with its diatonic triads generated from the scale
+export function buildKey(tonicName: string, type: ScaleType): KeyData {
+  const intervals = SCALE_DEFINITIONS.find(definition => definition.type === type)?.intervals ?? MAJOR_SCALE;
+  const tonic = formatNoteName(tonicName);
+  const scale = spellScale(tonicName, intervals).map(formatNoteName);
+  const chords = scale
+    .map((_, degree) => buildDiatonicChord(scale, degree, 'triads'))
+    .filter((chord): chord is string => chord !== null);
+
+  return {
+    name: type === 'Minor' ? `${tonic}m` : tonic,
+    type,
+    scale,
+    chords,
+  };
+}
+
+// Every scale on every tonic
+function buildChordChart(): KeyData[] {
+  const chart: KeyData[] = [];
+
+  SCALE_DEFINITIONS.forEach(({ type, intervals, tonics }) => {
+    const tonicNames = tonics ?? Array.from({ length: 12 }, (_, pitchClass) => chooseTonic(pitchClass, intervals));
+    tonicNames.forEach(tonicName => chart.push(buildKey(tonicName, type)));
+  });
+
+  return chart;
+}
+
+export const CHORD_CHART: KeyData[] = buildChordChart();
+
+// All chords of a harmonic layer in a key, in scale-degree order
+export function getDiatonicChords(key: KeyData, layer: HarmonicLayer): DiatonicChord[] {
+  const { scale } = key;
+  const chords: DiatonicChord[] = [];
+
+  scale.forEach((_, degree) => {
+    const chord = buildDiatonicChord(scale, degree, layer);
+    if (chord) chords.push({ degree, chord });
+  });
+
+  return chords;
+}
+
 // Function to get notes for a chord (root position)
 export function getChordNotes(chord: string): number[] {
-  const root = chord.replace(/[°m]/g, '');
-  const rootMidi = NOTE_TO_MIDI[root];
-  
-  if (rootMidi === undefined) return [];
-  
-  if (chord.includes('°')) {
-    // Diminished chord: root, minor 3rd, diminished 5th
-    return [rootMidi, rootMidi + 3, rootMidi + 6];
-  } else if (chord.includes('m')) {
-    // Minor chord: root, minor 3rd, perfect 5th
-    return [rootMidi, rootMidi + 3, rootMidi + 7];
-  } else {
-    // Major chord: root, major 3rd, perfect 5th
-    return [rootMidi, rootMidi + 4, rootMidi + 7];
-  }
+  return parseChordSymbol(chord)?.midiNotes ?? [];
 }
 
-// Get chord voicings (root, 1st inversion, 2nd inversion)
-export function getChordVoicings(chord: string): { name: string; notes: number[] }[] {
-  const rootNotes = getChordNotes(chord);
-  
-  return [
-    { name: 'Root', notes: rootNotes },
-    { name: '1st Inv', notes: [rootNotes[1], rootNotes[2], rootNotes[0] + 12] },
-    { name: '2nd Inv', notes: [rootNotes[2], rootNotes[0] + 12, rootNotes[1] + 12] },
-  ];
+// Get chord voicings (root position and inversions) with spelled note names
+export function getChordVoicings(chord: string): ChordVoicing[] {
+  const chordData = parseChordSymbol(chord);
+  return chordData ? calculateVoicings(chordData) : [];
 }
@@ -0,0 +1,90 @@
+// Reverse chord lookup: name a chord from a set of played MIDI notes
+import { ChordData, loadChordDatabase } from './chordDatabase';
+import { spellPitchClass } from './spelling';
+
+export interface ChordMatch {
+  name: string;        // Display name, e.g. "C", "C/E" or "Am/G"
+  chord: ChordData;    // Database chord the notes were matched against
+  bass: string;        // Spelled lowest note
+  inversion: number;   // 0 = root position, 1 = 1st inversion, ...; -1 = bass is not a chord tone
+  score: number;       // Lower is simpler
+}
+
+function toPitchClassSet(midiNotes: number[]): Set<number> {
+  return new Set(midiNotes.map(midi => ((midi % 12) + 12) % 12));
+}
+
+function sameSet(a: Set<number>, b: Set<number>): boolean {
+  if (a.size !== b.size) return false;
+  for (const value of a) {
+    if (!b.has(value)) return false;
+  }
+  return true;
+}
+
+// Describe how a match relates to the played bass note
+export function inversionLabel(match: ChordMatch): string {
+  if (match.inversion === 0) return 'Root';
+  if (match.inversion === 1) return '1st Inv';
+  if (match.inversion === 2) return '2nd Inv';
+  if (match.inversion === 3) return '3rd Inv';
+  if (match.inversion > 3) return `${match.inversion}th Inv`;
+  return 'Added bass';
+}
+
+// Simplicity ranking: fewer notes, plain triads, root position and chord-tone basses first
+function simplicityScore(chord: ChordData, inversion: number): number {
+  let score = chord.midiNotes.length;
+  if (chord.quality.tones.length > 3) score += 1;
+  if (inversion > 0) score += 1;
+  if (inversion < 0) score += 2;
+  return score;
+}
+
+// Find every database chord whose pitch classes match the played notes.
+// The lowest played note decides the inversion; if it isn't a chord tone the
+// remaining notes are matched and the result is named as a slash chord.
+export function identifyChord(midiNotes: number[]): ChordMatch[] {
+  if (midiNotes.length < 2) return [];
+
+  const chords = loadChordDatabase();
+  const sorted = [...midiNotes].sort((a, b) => a - b);
+  const bassPitchClass = sorted[0] % 12;
+  const played = toPitchClassSet(sorted);
+  const upper = toPitchClassSet(sorted.filter(midi => midi % 12 !== bassPitchClass));
+
+  const matches: ChordMatch[] = [];
+
+  chords.forEach((chord) => {
+    const chordPitchClasses = chord.midiNotes.map(midi => midi % 12);
+    const chordSet = new Set(chordPitchClasses);
+
+    if (sameSet(chordSet, played)) {
+      const inversion = chordPitchClasses.indexOf(bassPitchClass);
+      const bass = chord.notes[inversion];
+      matches.push({
+        name: inversion === 0 ? chord.name : `${chord.name}/${bass}`,
+        chord,
+        bass,
+        inversion,
+        score: simplicityScore(chord, inversion)
+      });
+    } else if (upper.size >= 3 && !chordSet.has(bassPitchClass) && sameSet(chordSet, upper)) {
+      // Spell the added bass in the chord's own sharp/flat direction
+      const bass = spellPitchClass(bassPitchClass, { scale: chord.notes });
+      matches.push({
+        name: `${chord.name}/${bass}`,
+        chord,
+        bass,
+        inversion: -1,
+        score: simplicityScore(chord, -1)
+      });
+    }
+  });
+
+  return matches.sort((a, b) => {
+    if (a.score !== b.score) return a.score - b.score;
+    if (a.name.length !== b.name.length) return a.name.length - b.name.length;
+    return a.name.localeCompare(b.name);
+  });
+}
@@ -0,0 +1,457 @@
+// Chord-symbol parser: builds a ChordData from any legal chord name
+// Grammar: root [accidental] [quality] [extension] [modifiers...] [/bass]
+// Polychords: upper chord / lower chord (e.g. D/C7)
+//   quality    m, min, -, maj, M, Δ, dim, °, ø, aug, +
+//   extension  5, 6, 6/9, 7, 9, 11, 13
+//   modifiers  sus2, sus4, add9, b5, #9, #11, b13, alt, no3, omit5 (optionally in parentheses)
+import type { ChordData } from './chordDatabase';
+import { ChordFamily, ChordQuality, deriveChordQuality, findChordQuality } from './chordQualities';
+import { normalizeAccidentals, parseNoteName, spellChordTones, toneSemitones } from './spelling';
+
+// A chord tone expressed as a scale degree above the root plus a chromatic alteration
+// e.g. { degree: 7, alteration: -1 } is a minor seventh, { degree: 11, alteration: 1 } is a #11
+export interface ChordTone {
+  degree: number;
+  alteration: number;
+}
+
+export interface ParsedChordSymbol {
+  root: string;
+  rootPitchClass: number;
+  suffix: string;
+  bass: string | null;
+  bassPitchClass: number | null;
+  tones: ChordTone[];
+  quality: ChordQuality;
+}
+
+type Third = 'major' | 'minor' | 'sus2' | 'sus4' | 'none';
+type Fifth = 'perfect' | 'diminished' | 'augmented';
+type Seventh = 'minor' | 'major' | 'diminished' | null;
+
+interface ParsedQuality {
+  third: Third;
+  fifth: Fifth;
+  seventh: Seventh;
+  extension: number;
+  sixth: boolean;
+  power: boolean;
+  adds: ChordTone[];
+  alterations: ChordTone[];
+  omissions: number[];
+}
+
+function accidentalOffset(accidental: string): number {
+  let offset = 0;
+  for (const char of accidental) {
+    if (char === '#') offset += 1;
+    if (char === 'b') offset -= 1;
+  }
+  return offset;
+}
+
+// Parse the quality/extension/modifier part of a symbol (everything between root and slash)
+function parseQuality(body: string): ParsedQuality | null {
+  const quality: ParsedQuality = {
+    third: 'major',
+    fifth: 'perfect',
+    seventh: null,
+    extension: 0,
+    sixth: false,
+    power: false,
+    adds: [],
+    alterations: [],
+    omissions: []
+  };
+
+  let position = 0;
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = body.slice(position).match(pattern);
+    if (match) position += match[0].length;
+    return match;
+  };
+
+  const setSeventh = (seventh: Seventh, extension: number) => {
+    quality.seventh = seventh;
+    quality.extension = Math.max(quality.extension, extension);
+  };
+
+  // A chord has one fifth, so a second, different alteration ("C7b5#5") is rejected
+  const alterFifth = (fifth: Fifth): boolean => {
+    if (quality.fifth !== 'perfect' && quality.fifth !== fifth) return false;
+    quality.fifth = fifth;
+    return true;
+  };
+
+  // 1. Quality prefix
+  let majorSeventh = false;
+  let diminished = false;
+  let hasQuality = true;
+
+  if (take(/^(maj|Maj|MAJ|ma(?!dd)|M)/)) {
+    majorSeventh = true;
+  } else if (take(/^Δ/)) {
+    majorSeventh = true;
+    if (!/^(7|9|11|13)/.test(body.slice(position))) setSeventh('major', 7);
+  } else if (take(/^(min|mi|m|-)/)) {
+    quality.third = 'minor';
+    if (take(/^\(?(maj|Maj|ma(?!dd)|M|Δ)/)) majorSeventh = true;
+  } else if (take(/^(dim|°|o(?!mit))/)) {
+    quality.third = 'minor';
+    quality.fifth = 'diminished';
+    diminished = true;
+  } else if (take(/^(ø|Ø)/)) {
+    quality.third = 'minor';
+    quality.fifth = 'diminished';
+    setSeventh('minor', 7);
+    take(/^7/);
+  } else if (take(/^(aug|\+)/)) {
+    quality.fifth = 'augmented';
+  } else {
+    hasQuality = false;
+  }
+
+  // 2. Sixth, seventh or extension number
+  const number = take(/^(6\/9|69|6|7|9|11|13|5)/);
+  if (number) {
+    const value = number[1];
+    if (value === '5') {
+      if (hasQuality) return null;
+      quality.power = true;
+      quality.third = 'none';
+    } else if (value === '6') {
+      quality.sixth = true;
+    } else if (value === '6/9' || value === '69') {
+      quality.sixth = true;
+      quality.adds.push({ degree: 9, alteration: 0 });
+    } else {
+      const seventh: Seventh = majorSeventh ? 'major' : diminished ? 'diminished' : 'minor';
+      setSeventh(seventh, parseInt(value, 10));
+    }
+  } else if (majorSeventh && quality.seventh === null && quality.third === 'minor') {
+    // "m(maj)" without a number is not a chord
+    return null;
+  }
+
+  // 3. Modifiers: suspensions, added tones, alterations and omissions
+  while (position < body.length) {
+    if (take(/^[(),\s]+/)) continue;
+
+    const sus = take(/^sus(2|4)?/);
+    if (sus) {
+      quality.third = sus[1] === '2' ? 'sus2' : 'sus4';
+      continue;
+    }
+
+    const add = take(/^add(b|#)?(2|4|6|9|11|13)/);
+    if (add) {
+      quality.adds.push({ degree: parseInt(add[2], 10), alteration: accidentalOffset(add[1] ?? '') });
+      continue;
+    }
+
+    if (take(/^(\+|aug)5?/)) {
+      if (!alterFifth('augmented')) return null;
+      continue;
+    }
+
+    const majorExtension = take(/^(maj|Maj|M|Δ)(7|9|11|13)/);
+    if (majorExtension) {
+      setSeventh('major', parseInt(majorExtension[2], 10));
+      continue;
+    }
+
+    const extension = take(/^(7|9|11|13)/);
+    if (extension && quality.seventh === null && !quality.power) {
+      setSeventh(diminished ? 'diminished' : 'minor', parseInt(extension[1], 10));
+      continue;
+    } else if (extension) {
+      return null;
+    }
+
+    const alteration = take(/^(b|#)(5|9|11|13)/);
+    if (alteration) {
+      const offset = accidentalOffset(alteration[1]);
+      const degree = parseInt(alteration[2], 10);
+      if (degree === 5) {
+        if (!alterFifth(offset < 0 ? 'diminished' : 'augmented')) return null;
+      } else {
+        quality.alterations.push({ degree, alteration: offset });
+      }
+      continue;
+    }
+
+    if (take(/^alt/)) {
+      if (quality.seventh === null) setSeventh('minor', 7);
+      quality.alterations.push(
+        { degree: 9, alteration: -1 },
+        { degree: 9, alteration: 1 },
+        { degree: 11, alteration: 1 },
+        { degree: 13, alteration: -1 }
+      );
+      quality.omissions.push(5);
+      continue;
+    }
+
+    const omission = take(/^(no|omit)(1|3|5|R)/);
+    if (omission) {
+      quality.omissions.push(omission[2] === 'R' ? 1 : parseInt(omission[2], 10));
+      continue;
+    }
+
+    return null;
+  }
+
+  return quality;
+}
+
+// Expand a parsed quality into the chord tones it implies, sorted by degree
+function buildChordTones(quality: ParsedQuality): ChordTone[] {
+  const tones: ChordTone[] = [{ degree: 1, alteration: 0 }];
+
+  if (quality.third === 'major') tones.push({ degree: 3, alteration: 0 });
+  if (quality.third === 'minor') tones.push({ degree: 3, alteration: -1 });
+  if (quality.third === 'sus2') tones.push({ degree: 2, alteration: 0 });
+  if (quality.third === 'sus4') tones.push({ degree: 4, alteration: 0 });
+
+  const fifthAlteration = quality.fifth === 'diminished' ? -1 : quality.fifth === 'augmented' ? 1 : 0;
+  tones.push({ degree: 5, alteration: fifthAlteration });
+
+  if (quality.sixth) tones.push({ degree: 6, alteration: 0 });
+
+  if (quality.seventh === 'minor') tones.push({ degree: 7, alteration: -1 });
+  if (quality.seventh === 'major') tones.push({ degree: 7, alteration: 0 });
+  if (quality.seventh === 'diminished') tones.push({ degree: 7, alteration: -2 });
+
+  // Extensions stack every third up to the named one. A natural 11 clashes with a
+  // major third, so 13th chords only keep it when the third is minor.
+  const alteredDegrees = new Set(quality.alterations.map(tone => tone.degree));
+  if (quality.extension >= 9 && !alteredDegrees.has(9)) {
+    tones.push({ degree: 9, alteration: 0 });
+  }
+  if (quality.extension >= 11 && !alteredDegrees.has(11) && quality.third !== 'sus4') {
+    if (quality.extension === 11 || quality.third === 'minor') {
+      tones.push({ degree: 11, alteration: 0 });
+    }
+  }
+  if (quality.extension >= 13 && !alteredDegrees.has(13)) {
+    tones.push({ degree: 13, alteration: 0 });
+  }
+
+  tones.push(...quality.alterations, ...quality.adds);
+
+  const filtered = tones.filter(tone => !quality.omissions.includes(tone.degree));
+
+  // Remove duplicates (e.g. "C9add9") and order by pitch above the root
+  const unique = filtered.filter((tone, index) =>
+    filtered.findIndex(other => toneSemitones(other) === toneSemitones(tone)) === index
+  );
+  return unique.sort((a, b) => a.degree - b.degree || a.alteration - b.alteration);
+}
+
+function ordinal(value: number): string {
+  return `${value}th`;
+}
+
+function formatTone(tone: ChordTone): string {
+  const accidental = tone.alteration < 0 ? 'b'.repeat(-tone.alteration) : '#'.repeat(tone.alteration);
+  return `${accidental}${tone.degree}`;
+}
+
+// Family and descriptive name ("Dominant 13th Sus4") for a quality the registry doesn't list
+function describeQuality(quality: ParsedQuality): { family: ChordFamily; name: string } {
+  if (quality.power) {
+    return { family: 'power', name: 'Power Chord' };
+  }
+
+  const { third, fifth, seventh, extension } = quality;
+  let family: ChordFamily;
+  let label: string;
+
+  if (seventh === 'diminished') {
+    family = 'diminished';
+    label = `Diminished ${ordinal(extension)}`;
+  } else if (third === 'minor' && fifth === 'diminished') {
+    family = 'diminished';
+    label = seventh === 'minor' ? `Half Diminished ${ordinal(extension)}`
+      : seventh === 'major' ? `Diminished Major ${ordinal(extension)}`
+      : 'Diminished Triad';
+  } else if (fifth === 'augmented' && third === 'major' && seventh !== 'major') {
+    family = 'augmented';
+    label = seventh ? `Augmented ${ordinal(extension)}` : 'Augmented Triad';
+  } else if (seventh === 'minor' && third !== 'minor') {
+    family = 'dominant';
+    label = `Dominant ${ordinal(extension)}`;
+  } else if (third === 'minor') {
+    family = 'minor';
+    label = seventh === 'major' ? `Minor Major ${ordinal(extension)}`
+      : seventh ? `Minor ${ordinal(extension)}`
+      : quality.sixth ? 'Minor 6th' : 'Minor Triad';
+  } else if ((third === 'sus2' || third === 'sus4') && !seventh && !quality.sixth) {
+    family = 'suspended';
+    label = third === 'sus2' ? 'Sus2' : 'Sus4';
+  } else {
+    family = 'major';
+    label = seventh ? `Major ${ordinal(extension)}` : quality.sixth ? 'Major 6th' : 'Major Triad';
+  }
+
+  // Suspensions on seventh chords and sixths are reported as modifiers of the base label
+  if (family !== 'suspended' && (third === 'sus2' || third === 'sus4')) {
+    label += third === 'sus2' ? ' Sus2' : ' Sus4';
+  }
+
+  const modifiers: string[] = [];
+  if (fifth === 'diminished' && family !== 'diminished') modifiers.push('b5');
+  if (fifth === 'augmented' && family !== 'augmented') modifiers.push('#5');
+  modifiers.push(...quality.alterations.map(formatTone));
+  modifiers.push(...quality.adds
+    .filter(tone => !(quality.sixth && tone.degree === 9 && tone.alteration === 0))
+    .map(tone => `add${formatTone(tone)}`));
+  if (quality.sixth && quality.adds.some(tone => tone.degree === 9)) {
+    label = label.endsWith(' 6th') && !seventh ? label.replace(/6th$/, '6/9') : `${label} 6/9`;
+  }
+  modifiers.push(...quality.omissions.map(degree => `no${degree}`));
+
+  return {
+    family,
+    name: modifiers.length > 0 ? `${label} (${modifiers.join(', ')})` : label
+  };
+}
+
+// The registry entry for these tones, or a quality derived from the symbol as written
+function resolveQuality(body: string, parsed: ParsedQuality): { tones: ChordTone[]; quality: ChordQuality } {
+  const tones = buildChordTones(parsed);
+  const registered = findChordQuality(tones);
+  if (registered) return { tones, quality: registered };
+
+  const { family, name } = describeQuality(parsed);
+  return { tones, quality: deriveChordQuality(body, tones, family, name) };
+}
+
+// Split a chord symbol into root, quality/extension body and optional slash bass
+export function parseChordSymbolStructure(symbol: string): ParsedChordSymbol | null {
+  const text = normalizeAccidentals(symbol.trim());
+  const match = text.match(/^([A-Ga-g])(##|bb|#|b)?(.*?)(?:\/([A-Ga-g](?:##|bb|#|b)?))?$/);
+  if (!match) return null;
+
+  const [, letter, accidental = '', body, bassText] = match;
+  const root = parseNoteName(letter + accidental);
+  if (!root) return null;
+
+  const parsed = parseQuality(body);
+  if (!parsed) return null;
+
+  const bass = bassText ? parseNoteName(bassText) : null;
+  const { tones, quality } = resolveQuality(body, parsed);
+  // Omissions can leave no tones at all ("Cno1no3no5"), which is not a chord
+  if (tones.length === 0) return null;
+
+  return {
+    root: root.name,
+    rootPitchClass: root.pitchClass,
+    suffix: body,
+    bass: bass ? bass.name : null,
+    bassPitchClass: bass ? bass.pitchClass : null,
+    tones,
+    quality
+  };
+}
+
+// Build a ChordData (spelled notes + MIDI notes in the 4th octave) from a chord symbol.
+// Returns null if the symbol is not a legal chord name.
+export function parseChordSymbol(symbol: string): ChordData | null {
+  const parsed = parseChordSymbolStructure(symbol);
+  if (!parsed) return null;
+
+  const rootMidi = 60 + parsed.rootPitchClass;
+  let notes = spellChordTones(parsed.root, parsed.tones);
+  let midiNotes = parsed.tones.map(tone => rootMidi + toneSemitones(tone));
+
+  if (parsed.bass !== null && parsed.bassPitchClass !== null) {
+    // The bass sits in the 4th octave and the chord is stacked on the nearest root above it
+    const bassMidi = 60 + parsed.bassPitchClass;
+    const shift = bassMidi + ((parsed.rootPitchClass - parsed.bassPitchClass + 12) % 12) - rootMidi;
+    const upper = midiNotes
+      .map((midi, index) => ({ midi: midi + shift, name: notes[index] }))
+      .filter(note => note.midi % 12 !== parsed.bassPitchClass);
+
+    notes = [parsed.bass, ...upper.map(note => note.name)];
+    midiNotes = [bassMidi, ...upper.map(note => note.midi)];
+  }
+
+  // Registered qualities are named with their canonical symbol, so "CM7" becomes "Cmaj7"
+  const { quality } = parsed;
+  const name = `${parsed.root}${quality.symbol}${parsed.bass ? `/${parsed.bass}` : ''}`;
+
+  const chord: ChordData = { name, notes, midiNotes, quality };
+  if (parsed.bass !== null) chord.bass = parsed.bass;
+  return chord;
+}
+
+// The root of a chord, read from its name so slash chords aren't rooted on the bass.
+// Hand-built chords (augmented sixths) and polychords fall back to their lowest note.
+export function chordRootName(chord: ChordData): string | null {
+  return parseChordSymbolStructure(chord.name)?.root ?? parseNoteName(chord.notes[0] ?? '')?.name ?? null;
+}
+
+// Tones of a stacked chord above its lowest note, with compound degrees for
+// notes more than an octave up (D/C7's E is a 9th, F♯ a ♯11)
+function polychordTones(notes: string[], midiNotes: number[]): ChordTone[] {
+  const root = parseNoteName(notes[0]);
+  const tones: ChordTone[] = [];
+
+  notes.forEach((noteName, index) => {
+    const note = parseNoteName(noteName);
+    if (!root || !note) return;
+    const span = midiNotes[index] - midiNotes[0];
+    const letters = (note.letter - root.letter + 7) % 7;
+    const degree = letters + 1 + (span >= 12 && letters % 2 === 1 ? 7 : 0);
+    let alteration = (span - toneSemitones({ degree, alteration: 0 })) % 12;
+    if (alteration > 6) alteration -= 12;
+    if (alteration < -6) alteration += 12;
+
+    const tone = { degree, alteration };
+    if (!tones.some(other => toneSemitones(other) % 12 === toneSemitones(tone) % 12)) tones.push(tone);
+  });
+
+  return tones;
+}
+
+// Stack one chord over another: the lower chord keeps its notes and the upper
+// chord is rebuilt on the first root above the lower chord's top note
+export function buildPolychord(upper: ChordData, lower: ChordData): ChordData {
+  const lowerTop = Math.max(...lower.midiNotes);
+  const upperRoot = upper.midiNotes[0];
+  const shift = lowerTop + 1 + ((upperRoot - lowerTop - 1) % 12 + 12) % 12 - upperRoot;
+
+  const notes = [...lower.notes, ...upper.notes];
+  const midiNotes = [...lower.midiNotes, ...upper.midiNotes.map(midi => midi + shift)];
+  const name = `${upper.name}/${lower.name}`;
+  const tones = polychordTones(notes, midiNotes);
+
+  return {
+    name,
+    notes,
+    midiNotes,
+    quality: deriveChordQuality(name, tones, 'polychord', `${upper.name} over ${lower.name}`),
+    polychord: { upper, lower },
+  };
+}
+
+// Parse a polychord symbol such as "D/C7" or "Eb/Dbmaj7". A bare note after the
+// slash is a slash bass rather than a lower chord, so "C/E" is not a polychord.
+export function parsePolychord(symbol: string): ChordData | null {
+  const text = symbol.trim();
+
+  for (let index = text.indexOf('/'); index > 0; index = text.indexOf('/', index + 1)) {
+    const lowerText = text.slice(index + 1);
+    if (parseNoteName(lowerText)) continue;
+
+    const upper = parseChordSymbol(text.slice(0, index));
+    const lower = parseChordSymbol(lowerText);
+    if (upper && lower && !upper.bass && !lower.bass) {
+      return buildPolychord(upper, lower);
+    }
+  }
+
+  return null;
+}
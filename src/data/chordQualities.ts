@@ -0,0 +1,202 @@
+// Chord-quality registry: every chord references one of these, so code can reason
+// about a chord's structure (intervals, family, tensions) instead of label strings
+import type { ChordTone } from './chordParser';
+import { toneSemitones } from './spelling';
+
+export type ChordFamily =
+  | 'major' | 'minor' | 'dominant' | 'diminished' | 'augmented' | 'suspended'
+  | 'power' | 'augmented-sixth' | 'polychord';
+
+export interface ChordQuality {
+  id: string;
+  symbol: string;       // Canonical suffix written after the root, e.g. "maj7" ("" for a major triad)
+  aliases: string[];    // Other suffixes the parser reads as the same quality
+  name: string;         // e.g. "Major 7th", "Half Diminished 7th"
+  family: ChordFamily;
+  tones: ChordTone[];   // Chord tones as degrees above the root, in ascending order
+  intervals: number[];  // The same tones in semitones above the root
+  tensions: string[];   // Available tensions not already in the chord, e.g. ["9", "#11", "13"]
+  difficulty: number;   // 1 (major and minor triads) to 5 (altered chords)
+  registered: boolean;  // False for qualities derived on the fly from an unusual symbol
+}
+
+export const CHORD_FAMILY_LABELS: { [family in ChordFamily]: string } = {
+  major: 'Major',
+  minor: 'Minor',
+  dominant: 'Dominant',
+  diminished: 'Diminished',
+  augmented: 'Augmented',
+  suspended: 'Suspended',
+  power: 'Power',
+  'augmented-sixth': 'Augmented Sixth',
+  polychord: 'Polychord',
+};
+
+// Tensions each family can take, used for qualities without a registry entry
+const FAMILY_TENSIONS: { [family in ChordFamily]: string[] } = {
+  major: ['9', '#11', '13'],
+  minor: ['9', '11', '13'],
+  dominant: ['b9', '9', '#9', '#11', 'b13', '13'],
+  diminished: ['9', '11', 'b13'],
+  augmented: ['9', '#11'],
+  suspended: ['9', '13'],
+  power: [],
+  'augmented-sixth': [],
+  polychord: [],
+};
+
+// "1 b3 5 b7 9" → chord tones
+function formula(text: string): ChordTone[] {
+  return text.split(' ').map((token) => {
+    const [, accidentals, degree] = token.match(/^(b*|#*)(\d+)$/) ?? [];
+    const alteration = accidentals.startsWith('#') ? accidentals.length : -accidentals.length;
+    return { degree: parseInt(degree, 10), alteration };
+  });
+}
+
+function sortTones(tones: ChordTone[]): ChordTone[] {
+  return [...tones].sort((a, b) => a.degree - b.degree || a.alteration - b.alteration);
+}
+
+function toneName(tone: ChordTone): string {
+  const accidental = tone.alteration < 0 ? 'b'.repeat(-tone.alteration) : '#'.repeat(tone.alteration);
+  return `${accidental}${tone.degree}`;
+}
+
+// A tension counts as present when the chord already has that pitch
+function missingTensions(tensions: string[], tones: ChordTone[]): string[] {
+  const present = new Set(tones.map(tone => toneSemitones(tone) % 12));
+  return tensions.filter(tension => !present.has(toneSemitones(formula(tension)[0]) % 12));
+}
+
+interface QualityDefinition {
+  id: string;
+  symbol: string;
+  aliases?: string[];
+  name: string;
+  family: ChordFamily;
+  formula: string;
+  tensions: string[];
+  difficulty: number;
+}
+
+function defineQuality(definition: QualityDefinition): ChordQuality {
+  const tones = sortTones(formula(definition.formula));
+  return {
+    id: definition.id,
+    symbol: definition.symbol,
+    aliases: definition.aliases ?? [],
+    name: definition.name,
+    family: definition.family,
+    tones,
+    intervals: tones.map(toneSemitones),
+    tensions: definition.tensions,
+    difficulty: definition.difficulty,
+    registered: true,
+  };
+}
+
+const QUALITY_DEFINITIONS: QualityDefinition[] = [
+  // Triads and power chords
+  { id: 'major', symbol: '', aliases: ['M', 'maj'], name: 'Major Triad', family: 'major', formula: '1 3 5', tensions: ['9', '#11', '13'], difficulty: 1 },
+  { id: 'minor', symbol: 'm', aliases: ['min', 'mi', '-'], name: 'Minor Triad', family: 'minor', formula: '1 b3 5', tensions: ['9', '11', '13'], difficulty: 1 },
+  { id: 'power', symbol: '5', name: 'Power Chord', family: 'power', formula: '1 5', tensions: [], difficulty: 1 },
+  { id: 'diminished', symbol: 'dim', aliases: ['°', 'o', 'mb5'], name: 'Diminished Triad', family: 'diminished', formula: '1 b3 b5', tensions: ['11', 'b13'], difficulty: 2 },
+  { id: 'augmented', symbol: 'aug', aliases: ['+', '(#5)'], name: 'Augmented Triad', family: 'augmented', formula: '1 3 #5', tensions: ['9', '#11'], difficulty: 2 },
+  { id: 'sus2', symbol: 'sus2', name: 'Sus2', family: 'suspended', formula: '1 2 5', tensions: ['13'], difficulty: 2 },
+  { id: 'sus4', symbol: 'sus4', aliases: ['sus'], name: 'Sus4', family: 'suspended', formula: '1 4 5', tensions: ['9', '13'], difficulty: 2 },
+
+  // Sixths and added tones
+  { id: 'major-6', symbol: '6', aliases: ['M6', 'maj6'], name: 'Major 6th', family: 'major', formula: '1 3 5 6', tensions: ['9', '#11'], difficulty: 2 },
+  { id: 'minor-6', symbol: 'm6', aliases: ['min6', '-6'], name: 'Minor 6th', family: 'minor', formula: '1 b3 5 6', tensions: ['9', '11'], difficulty: 2 },
+  { id: 'add9', symbol: 'add9', name: 'Major Add 9', family: 'major', formula: '1 3 5 9', tensions: ['#11', '13'], difficulty: 2 },
+  { id: 'minor-add9', symbol: 'madd9', aliases: ['m(add9)'], name: 'Minor Add 9', family: 'minor', formula: '1 b3 5 9', tensions: ['11', '13'], difficulty: 2 },
+  { id: 'six-nine', symbol: '6/9', aliases: ['69'], name: 'Major 6/9', family: 'major', formula: '1 3 5 6 9', tensions: ['#11'], difficulty: 3 },
+  { id: 'minor-six-nine', symbol: 'm6/9', aliases: ['m69'], name: 'Minor 6/9', family: 'minor', formula: '1 b3 5 6 9', tensions: ['11'], difficulty: 3 },
+  { id: 'add11', symbol: 'add11', name: 'Major Add 11', family: 'major', formula: '1 3 5 11', tensions: ['9', '13'], difficulty: 3 },
+  { id: 'minor-add11', symbol: 'madd11', aliases: ['m(add11)'], name: 'Minor Add 11', family: 'minor', formula: '1 b3 5 11', tensions: ['9', '13'], difficulty: 3 },
+
+  // Sevenths
+  { id: 'major-7', symbol: 'maj7', aliases: ['M7', 'ma7', 'Δ', 'Δ7'], name: 'Major 7th', family: 'major', formula: '1 3 5 7', tensions: ['9', '#11', '13'], difficulty: 2 },
+  { id: 'dominant-7', symbol: '7', name: 'Dominant 7th', family: 'dominant', formula: '1 3 5 b7', tensions: ['b9', '9', '#9', '#11', 'b13', '13'], difficulty: 2 },
+  { id: 'minor-7', symbol: 'm7', aliases: ['min7', 'mi7', '-7'], name: 'Minor 7th', family: 'minor', formula: '1 b3 5 b7', tensions: ['9', '11', '13'], difficulty: 2 },
+  { id: 'minor-major-7', symbol: 'm(maj7)', aliases: ['mmaj7', 'mM7', 'm(Δ7)', '-Δ7'], name: 'Minor Major 7th', family: 'minor', formula: '1 b3 5 7', tensions: ['9', '11', '13'], difficulty: 3 },
+  { id: 'half-diminished-7', symbol: 'm7b5', aliases: ['ø', 'ø7', 'min7b5', '-7b5'], name: 'Half Diminished 7th', family: 'diminished', formula: '1 b3 b5 b7', tensions: ['9', '11', 'b13'], difficulty: 3 },
+  { id: 'diminished-7', symbol: 'dim7', aliases: ['°7', 'o7'], name: 'Diminished 7th', family: 'diminished', formula: '1 b3 b5 bb7', tensions: ['9', '11', 'b13'], difficulty: 3 },
+  { id: 'augmented-7', symbol: 'aug7', aliases: ['+7', '7#5', '7+5'], name: 'Augmented 7th', family: 'augmented', formula: '1 3 #5 b7', tensions: ['9', '#11'], difficulty: 3 },
+  { id: 'dominant-7-sus4', symbol: '7sus4', aliases: ['7sus'], name: 'Dominant 7th Sus4', family: 'dominant', formula: '1 4 5 b7', tensions: ['b9', '9', '13'], difficulty: 3 },
+  { id: 'augmented-major-7', symbol: 'maj7#5', aliases: ['maj7+5', '+maj7', 'Δ#5'], name: 'Augmented Major 7th', family: 'augmented', formula: '1 3 #5 7', tensions: ['9', '#11'], difficulty: 3 },
+  { id: 'diminished-major-7', symbol: 'dim(maj7)', aliases: ['dimM7', 'm(maj7)b5'], name: 'Diminished Major 7th', family: 'diminished', formula: '1 b3 b5 7', tensions: ['9', '11', 'b13'], difficulty: 4 },
+
+  // Extended chords
+  { id: 'major-9', symbol: 'maj9', aliases: ['M9', 'Δ9'], name: 'Major 9th', family: 'major', formula: '1 3 5 7 9', tensions: ['#11', '13'], difficulty: 3 },
+  { id: 'dominant-9', symbol: '9', name: 'Dominant 9th', family: 'dominant', formula: '1 3 5 b7 9', tensions: ['#11', 'b13', '13'], difficulty: 3 },
+  { id: 'minor-9', symbol: 'm9', aliases: ['min9', '-9'], name: 'Minor 9th', family: 'minor', formula: '1 b3 5 b7 9', tensions: ['11', '13'], difficulty: 3 },
+  { id: 'major-11', symbol: 'maj11', aliases: ['M11', 'Δ11'], name: 'Major 11th', family: 'major', formula: '1 3 5 7 9 11', tensions: ['13'], difficulty: 4 },
+  { id: 'dominant-11', symbol: '11', name: 'Dominant 11th', family: 'dominant', formula: '1 3 5 b7 9 11', tensions: ['13'], difficulty: 4 },
+  { id: 'minor-11', symbol: 'm11', aliases: ['min11', '-11'], name: 'Minor 11th', family: 'minor', formula: '1 b3 5 b7 9 11', tensions: ['13'], difficulty: 4 },
+  { id: 'major-13', symbol: 'maj13', aliases: ['M13', 'Δ13'], name: 'Major 13th', family: 'major', formula: '1 3 5 7 9 13', tensions: ['#11'], difficulty: 4 },
+  { id: 'dominant-13', symbol: '13', name: 'Dominant 13th', family: 'dominant', formula: '1 3 5 b7 9 13', tensions: ['b9', '#9', '#11'], difficulty: 4 },
+  { id: 'minor-13', symbol: 'm13', aliases: ['min13', '-13'], name: 'Minor 13th', family: 'minor', formula: '1 b3 5 b7 9 11 13', tensions: [], difficulty: 4 },
+  { id: 'major-7-sharp-11', symbol: 'maj7#11', aliases: ['Δ#11', 'maj7(#11)'], name: 'Major 7th (#11)', family: 'major', formula: '1 3 5 7 #11', tensions: ['9', '13'], difficulty: 3 },
+  { id: 'major-9-sharp-11', symbol: 'maj9#11', aliases: ['Δ9#11'], name: 'Major 9th (#11)', family: 'major', formula: '1 3 5 7 9 #11', tensions: ['13'], difficulty: 4 },
+  { id: 'dominant-9-sus4', symbol: '9sus4', aliases: ['9sus'], name: 'Dominant 9th Sus4', family: 'dominant', formula: '1 4 5 b7 9', tensions: ['13'], difficulty: 3 },
+  { id: 'dominant-13-sus4', symbol: '13sus4', aliases: ['13sus'], name: 'Dominant 13th Sus4', family: 'dominant', formula: '1 4 5 b7 9 13', tensions: [], difficulty: 4 },
+
+  // Altered dominants
+  { id: 'dominant-7-flat-9', symbol: '7b9', name: 'Dominant 7th (b9)', family: 'dominant', formula: '1 3 5 b7 b9', tensions: ['#9', '#11', 'b13', '13'], difficulty: 4 },
+  { id: 'dominant-7-sharp-9', symbol: '7#9', name: 'Dominant 7th (#9)', family: 'dominant', formula: '1 3 5 b7 #9', tensions: ['b9', '#11', 'b13'], difficulty: 4 },
+  { id: 'dominant-7-sharp-11', symbol: '7#11', name: 'Dominant 7th (#11)', family: 'dominant', formula: '1 3 5 b7 #11', tensions: ['9', '13'], difficulty: 4 },
+  { id: 'dominant-7-flat-5', symbol: '7b5', name: 'Dominant 7th (b5)', family: 'dominant', formula: '1 3 b5 b7', tensions: ['9', '13'], difficulty: 4 },
+  { id: 'dominant-7-flat-13', symbol: '7b13', name: 'Dominant 7th (b13)', family: 'dominant', formula: '1 3 5 b7 b13', tensions: ['b9', '#9'], difficulty: 4 },
+  { id: 'dominant-7-flat-9-flat-13', symbol: '7b9b13', name: 'Dominant 7th (b9 b13)', family: 'dominant', formula: '1 3 5 b7 b9 b13', tensions: ['#9', '#11'], difficulty: 5 },
+  { id: 'dominant-7-sharp-5-flat-9', symbol: '7#5b9', aliases: ['aug7b9', '+7b9'], name: 'Dominant 7th (#5 b9)', family: 'dominant', formula: '1 3 #5 b7 b9', tensions: ['#9', '#11'], difficulty: 5 },
+  { id: 'dominant-7-sharp-5-sharp-9', symbol: '7#5#9', aliases: ['aug7#9', '+7#9'], name: 'Dominant 7th (#5 #9)', family: 'dominant', formula: '1 3 #5 b7 #9', tensions: ['b9', '#11'], difficulty: 5 },
+  { id: 'dominant-9-sharp-11', symbol: '9#11', name: 'Dominant 9th (#11)', family: 'dominant', formula: '1 3 5 b7 9 #11', tensions: ['13'], difficulty: 4 },
+  { id: 'dominant-13-flat-9', symbol: '13b9', name: 'Dominant 13th (b9)', family: 'dominant', formula: '1 3 5 b7 b9 13', tensions: ['#11'], difficulty: 5 },
+  { id: 'dominant-13-sharp-11', symbol: '13#11', name: 'Dominant 13th (#11)', family: 'dominant', formula: '1 3 5 b7 9 #11 13', tensions: [], difficulty: 5 },
+  { id: 'altered', symbol: '7alt', aliases: ['alt'], name: 'Altered Dominant', family: 'dominant', formula: '1 3 b7 b9 #9 #11 b13', tensions: [], difficulty: 5 },
+
+  // Augmented sixths, rooted on the bass (♭6 of the key)
+  { id: 'italian-sixth', symbol: 'It+6', name: 'Italian Augmented Sixth', family: 'augmented-sixth', formula: '1 3 #6', tensions: [], difficulty: 4 },
+  { id: 'french-sixth', symbol: 'Fr+6', name: 'French Augmented Sixth', family: 'augmented-sixth', formula: '1 3 #4 #6', tensions: [], difficulty: 4 },
+  { id: 'german-sixth', symbol: 'Ger+6', name: 'German Augmented Sixth', family: 'augmented-sixth', formula: '1 3 5 #6', tensions: [], difficulty: 4 },
+];
+
+export const CHORD_QUALITIES: ChordQuality[] = QUALITY_DEFINITIONS.map(defineQuality);
+
+const tonesKey = (tones: ChordTone[]) => sortTones(tones).map(toneName).join(' ');
+
+const QUALITIES_BY_TONES = new Map(CHORD_QUALITIES.map(quality => [tonesKey(quality.tones), quality]));
+const QUALITIES_BY_ID = new Map(CHORD_QUALITIES.map(quality => [quality.id, quality]));
+
+export function getChordQuality(id: string): ChordQuality {
+  const quality = QUALITIES_BY_ID.get(id);
+  if (!quality) throw new Error(`Unknown chord quality ${id}`);
+  return quality;
+}
+
+// The registered quality with exactly these tones, if there is one
+export function findChordQuality(tones: ChordTone[]): ChordQuality | undefined {
+  return QUALITIES_BY_TONES.get(tonesKey(tones));
+}
+
+// A quality for tones the registry doesn't list (e.g. maj7#11), keeping the
+// symbol it was written with. Difficulty grows with size and chromatic alterations.
+export function deriveChordQuality(symbol: string, tones: ChordTone[], family: ChordFamily, name: string): ChordQuality {
+  const sorted = sortTones(tones);
+  const alterations = sorted.filter(tone => tone.degree !== 3 && tone.degree !== 7 && tone.alteration !== 0).length;
+
+  return {
+    id: `derived:${symbol}`,
+    symbol,
+    aliases: [],
+    name,
+    family,
+    tones: sorted,
+    intervals: sorted.map(toneSemitones),
+    tensions: missingTensions(FAMILY_TENSIONS[family], sorted),
+    difficulty: Math.min(5, Math.max(1, sorted.length - 2) + alterations),
+    registered: false,
+  };
+}
@@ -0,0 +1,113 @@
+// Chord–scale compatibility: scales on a chord's root that contain its tones,
+// ranked for improvising over the chord
+import { ChordData } from './chordDatabase';
+import { SCALE_DEFINITIONS } from './chordData';
+import { chordRootName } from './chordParser';
+import { KeyContext, formatNoteName, notePitchClass, parseNoteName, spellNote } from './spelling';
+
+export interface ChordScale {
+  name: string;           // Scale name without the tonic, e.g. "Mixolydian"
+  notes: string[];        // Spelled from the chord root, e.g. ["C", "D", "E", "F", "G", "A", "B♭"]
+  avoidNotes: string[];   // Scale notes a half step above a chord tone (b9 and b13 are fine on dominants)
+  inKey: boolean;         // Every note of the scale is in the key context
+  score: number;          // Higher is a better fit
+}
+
+interface ScaleSpelling {
+  name: string;
+  intervals: number[];
+  letters?: number[];  // Letter steps for each note; defaults to one letter per note
+}
+
+// Symmetric scales need more (or fewer) notes than letters, so their spelling is explicit
+const SYMMETRIC_SCALES: ScaleSpelling[] = [
+  { name: 'Half-Whole Diminished', intervals: [0, 1, 3, 4, 6, 7, 9, 10], letters: [0, 1, 2, 2, 3, 4, 5, 6] },
+  { name: 'Whole-Half Diminished', intervals: [0, 2, 3, 5, 6, 8, 9, 11], letters: [0, 1, 2, 3, 4, 5, 5, 6] },
+  { name: 'Whole Tone', intervals: [0, 2, 4, 6, 8, 10], letters: [0, 1, 2, 3, 4, 6] },
+];
+
+const SCALES: ScaleSpelling[] = [
+  ...SCALE_DEFINITIONS.map(({ type, intervals }) => ({ name: type, intervals })),
+  ...SYMMETRIC_SCALES,
+];
+
+// How often each scale is the first choice over a chord it fits; breaks ties so,
+// e.g., Mixolydian comes before Phrygian Dominant over a plain 7 chord
+const COMMON_SCALES: { [name: string]: number } = {
+  Major: 0.7,
+  Mixolydian: 0.7,
+  Dorian: 0.6,
+  Minor: 0.5,
+  Lydian: 0.4,
+  'Lydian Dominant': 0.4,
+  Altered: 0.4,
+  'Melodic Minor': 0.4,
+  'Locrian ♮2': 0.4,
+  'Half-Whole Diminished': 0.4,
+  'Whole-Half Diminished': 0.4,
+  Phrygian: 0.3,
+  Locrian: 0.3,
+  'Harmonic Minor': 0.3,
+  'Phrygian Dominant': 0.3,
+  'Whole Tone': 0.3,
+};
+
+const AVOID_NOTE_PENALTY = 0.25;
+const MISSING_FIFTH_PENALTY = 0.3;
+const IN_KEY_BONUS = 1;
+
+function spellScaleFrom(root: string, { intervals, letters }: ScaleSpelling): string[] {
+  const parsedRoot = parseNoteName(root);
+  if (!parsedRoot) return [];
+
+  return intervals.map((interval, index) =>
+    spellNote(parsedRoot.letter + (letters ? letters[index] : index), (parsedRoot.pitchClass + interval) % 12)
+  );
+}
+
+// Every scale on the chord's root that holds all of its notes, best fit first.
+// The natural 5th may be missing (the altered scale over a 7 chord), at a small cost.
+// With a key, scales that stay inside it rank higher.
+export function getChordScales(chord: ChordData, key?: KeyContext): ChordScale[] {
+  const root = chordRootName(chord);
+  const rootPitchClass = root ? notePitchClass(root) : null;
+  if (!root || rootPitchClass === null) return [];
+
+  const chordPitchClasses = new Set(
+    chord.notes
+      .map(note => notePitchClass(note))
+      .filter((pitchClass): pitchClass is number => pitchClass !== null)
+  );
+  const fifth = (rootPitchClass + 7) % 12;
+  const isDominant = chordPitchClasses.has((rootPitchClass + 4) % 12) && chordPitchClasses.has((rootPitchClass + 10) % 12);
+  const isAvoidNote = (pitchClass: number) => {
+    const below = (pitchClass + 11) % 12;
+    if (chordPitchClasses.has(pitchClass) || !chordPitchClasses.has(below)) return false;
+    return !(isDominant && (below === rootPitchClass || below === fifth));
+  };
+  const keyPitchClasses = key ? new Set(key.scale.map(note => notePitchClass(note))) : null;
+
+  const scales: ChordScale[] = [];
+  SCALES.forEach((definition) => {
+    const pitchClasses = new Set(definition.intervals.map(interval => (rootPitchClass + interval) % 12));
+    const missing = Array.from(chordPitchClasses).filter(pitchClass => !pitchClasses.has(pitchClass));
+    if (missing.some(pitchClass => pitchClass !== fifth)) return;
+
+    const notes = spellScaleFrom(root, definition).map(formatNoteName);
+    const avoidNotes = notes.filter((note) => {
+      const pitchClass = notePitchClass(note);
+      return pitchClass !== null && isAvoidNote(pitchClass);
+    });
+    const inKey = keyPitchClasses !== null
+      && notes.every(note => keyPitchClasses.has(notePitchClass(note)));
+
+    let score = COMMON_SCALES[definition.name] ?? 0.1;
+    score -= avoidNotes.length * AVOID_NOTE_PENALTY;
+    if (missing.length > 0) score -= MISSING_FIFTH_PENALTY;
+    if (inKey) score += IN_KEY_BONUS;
+
+    scales.push({ name: definition.name, notes, avoidNotes, inKey, score });
+  });
+
+  return scales.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,36 @@
+// Chord vocabulary generated from the quality registry: every chord-symbol quality on
+// every root. src/data/chords.csv is written from this table by `npm run generate:vocabulary`,
+// so a new quality only needs a line in chordQualities.ts.
+import { CHORD_FAMILY_LABELS, CHORD_QUALITIES } from './chordQualities';
+import { spellChordTones } from './spelling';
+
+// Roots the vocabulary is built on: every natural plus both spellings of each black key
+export const CHORD_ROOTS = ['C', 'C#', 'Db', 'D', 'D#', 'Eb', 'E', 'F', 'F#', 'Gb', 'G', 'G#', 'Ab', 'A', 'A#', 'Bb', 'B'];
+
+export const CHORD_CSV_HEADER = 'chord_name,notes,chord_type,chord_extension';
+
+export interface ChordVocabularyRow {
+  name: string;
+  notes: string[];
+  type: string;       // Family label, e.g. "Dominant"
+  extension: string;  // Quality name, e.g. "Dominant 13th"
+}
+
+// Augmented sixths are named by function rather than by root and symbol, so they
+// are built per key in chromaticChords.ts instead
+export function generateChordVocabulary(): ChordVocabularyRow[] {
+  const qualities = CHORD_QUALITIES.filter(quality => quality.family !== 'augmented-sixth');
+
+  return CHORD_ROOTS.flatMap(root => qualities.map(quality => ({
+    name: `${root}${quality.symbol}`,
+    notes: spellChordTones(root, quality.tones),
+    type: CHORD_FAMILY_LABELS[quality.family],
+    extension: quality.name,
+  })));
+}
+
+// Rows in the chords.csv layout: name, quoted note list, type, extension
+export function chordVocabularyCsv(rows: ChordVocabularyRow[] = generateChordVocabulary()): string {
+  const lines = rows.map(row => `${row.name},"${row.notes.join(', ')}",${row.type},${row.extension}`);
+  return [CHORD_CSV_HEADER, ...lines].join('\n') + '\n';
+}
@@ -0,0 +1,149 @@
+// Inversions of a chord on the two-octave keyboard. Kept apart from the chord
+// database so the build-time chord-data plugin can precompute them.
+import type { ChordData } from './chordDatabase';
+
+export type Hand = 'left' | 'right';
+
+export interface ChordVoicing {
+  name: string;
+  notes: number[];
+  noteNames: string[];
+  hands?: Hand[]; // Hand playing each note, for voicings split between the hands
+}
+
+export interface VoicingOptions {
+  slashNames?: boolean; // Name inversions as slash chords ("C/E") rather than "1st Inv"
+}
+
+// Keep a fixed base (a slash bass or a polychord's lower chord) at the bottom and
+// invert the upper notes above it. Polychord voicings give each layer its own hand.
+function calculateStackedVoicings(
+  base: { notes: number[]; names: string[]; label: string },
+  upperNotes: number[],
+  upperNames: string[],
+  split: boolean
+): ChordVoicing[] {
+  const positions = Math.min(upperNotes.length, 4);
+  const positionNames = ['Root', '1st Inv', '2nd Inv', '3rd Inv'];
+  const baseTop = Math.max(...base.notes);
+  const voicings: ChordVoicing[] = [];
+
+  for (let position = 0; position < positions; position++) {
+    const rotated = upperNotes.slice(position).concat(upperNotes.slice(0, position));
+    const stacked: number[] = [];
+    rotated.forEach((note) => {
+      let placed = note;
+      const floor = stacked.length > 0 ? stacked[stacked.length - 1] : baseTop;
+      while (placed <= floor) placed += 12;
+      while (placed - 12 > floor) placed -= 12;
+      stacked.push(placed);
+    });
+
+    // Keep the top note on the keyboard where possible
+    const shift = stacked[stacked.length - 1] > 83 ? -12 : 0;
+    const voicing: ChordVoicing = {
+      name: `${base.label} + ${positionNames[position]}`,
+      notes: [...base.notes, ...stacked].map(note => note + shift),
+      noteNames: [...base.names, ...upperNames.slice(position), ...upperNames.slice(0, position)],
+    };
+    if (split) {
+      voicing.hands = [...base.notes.map((): Hand => 'left'), ...stacked.map((): Hand => 'right')];
+    }
+    voicings.push(voicing);
+  }
+
+  return voicings;
+}
+
+// Calculate chord inversions
+export function calculateVoicings(chord: ChordData, options: VoicingOptions = {}): ChordVoicing[] {
+  // Database chords carry their inversions, computed when chords.csv was compiled
+  if (chord.voicings && !options.slashNames) return chord.voicings;
+
+  const { name, midiNotes, notes: noteNames } = chord;
+  
+  if (midiNotes.length === 0) {
+    return [];
+  }
+
+  if (chord.polychord) {
+    const { upper, lower } = chord.polychord;
+    const lowerNotes = midiNotes.slice(0, lower.midiNotes.length);
+    return calculateStackedVoicings(
+      { notes: lowerNotes, names: lower.notes, label: lower.name },
+      midiNotes.slice(lowerNotes.length),
+      upper.notes,
+      true
+    );
+  }
+
+  if (chord.bass) {
+    return calculateStackedVoicings(
+      { notes: midiNotes.slice(0, 1), names: noteNames.slice(0, 1), label: 'Bass' },
+      midiNotes.slice(1),
+      noteNames.slice(1),
+      false
+    );
+  }
+  
+  // Keep original order for root position (CSV order is root position)
+  // The CSV should have notes in root position order (root, 3rd, 5th, etc.)
+  const rootNotes = [...midiNotes];
+  const rootNoteNames = [...noteNames];
+  
+  // Keyboard range: C4 (MIDI 60) to B5 (MIDI 83) - 2 octaves
+  const KEYBOARD_MIN = 60;
+  const KEYBOARD_MAX = 83;
+  
+  const voicings: ChordVoicing[] = [];
+  
+  // Root position - keep original order from CSV
+  voicings.push({
+    name: 'Root',
+    notes: rootNotes,
+    noteNames: rootNoteNames
+  });
+  
+  // Generate inversions by rotating notes and ensuring ascending order
+  const numInversions = Math.min(rootNotes.length, 4); // Max 4 voicings
+  
+  for (let inv = 1; inv < numInversions; inv++) {
+    const invNotes = [...rootNotes];
+    
+    // Move the first 'inv' notes up an octave
+    for (let i = 0; i < inv; i++) {
+      invNotes[i] += 12;
+    }
+    
+    // Rotate array by moving first 'inv' notes to the end
+    const rotatedNotes = invNotes.slice(inv).concat(invNotes.slice(0, inv));
+    
+    // Ensure notes are in ascending order by adjusting octaves if needed
+    const sortedInversion: number[] = [rotatedNotes[0]];
+    for (let i = 1; i < rotatedNotes.length; i++) {
+      let note = rotatedNotes[i];
+      // If this note is lower than the previous, move it up an octave
+      while (note <= sortedInversion[sortedInversion.length - 1]) {
+        note += 12;
+      }
+      sortedInversion.push(note);
+    }
+    
+    // Rotate note names to match the inversion
+    const rotatedNoteNames = rootNoteNames.slice(inv).concat(rootNoteNames.slice(0, inv));
+    
+    // If the highest note exceeds the keyboard range, shift all notes down an octave
+    const highestNote = Math.max(...sortedInversion);
+    const inversionName = options.slashNames
+      ? `${name}/${rotatedNoteNames[0]}`
+      : inv === 1 ? '1st Inv' : inv === 2 ? '2nd Inv' : '3rd Inv';
+
+    voicings.push({
+      name: inversionName,
+      notes: highestNote > KEYBOARD_MAX ? sortedInversion.map(note => note - 12) : sortedInversion,
+      noteNames: rotatedNoteNames
+    });
+  }
+  
+  return voicings;
+}
@@ -0,0 +1,61 @@
+// Types of the module the chord-data plugin (plugins/chordData.ts) compiles chords.csv into
+import type { ChordCsvError } from './chordCsv';
+import type { ChordData } from './chordDatabase';
+
+export declare const CHORDS: ChordData[];
+export declare const CHORD_DATA_ERRORS: ChordCsvError[];
+
+// The chords of each registered quality, named by qualityExportName in plugins/chordData.ts
+export declare const MAJOR_CHORDS: ChordData[];
+export declare const MINOR_CHORDS: ChordData[];
+export declare const POWER_CHORDS: ChordData[];
+export declare const DIMINISHED_CHORDS: ChordData[];
+export declare const AUGMENTED_CHORDS: ChordData[];
+export declare const SUS2_CHORDS: ChordData[];
+export declare const SUS4_CHORDS: ChordData[];
+export declare const MAJOR_6_CHORDS: ChordData[];
+export declare const MINOR_6_CHORDS: ChordData[];
+export declare const ADD9_CHORDS: ChordData[];
+export declare const MINOR_ADD9_CHORDS: ChordData[];
+export declare const SIX_NINE_CHORDS: ChordData[];
+export declare const MINOR_SIX_NINE_CHORDS: ChordData[];
+export declare const ADD11_CHORDS: ChordData[];
+export declare const MINOR_ADD11_CHORDS: ChordData[];
+export declare const MAJOR_7_CHORDS: ChordData[];
+export declare const DOMINANT_7_CHORDS: ChordData[];
+export declare const MINOR_7_CHORDS: ChordData[];
+export declare const MINOR_MAJOR_7_CHORDS: ChordData[];
+export declare const HALF_DIMINISHED_7_CHORDS: ChordData[];
+export declare const DIMINISHED_7_CHORDS: ChordData[];
+export declare const AUGMENTED_7_CHORDS: ChordData[];
+export declare const DOMINANT_7_SUS4_CHORDS: ChordData[];
+export declare const AUGMENTED_MAJOR_7_CHORDS: ChordData[];
+export declare const DIMINISHED_MAJOR_7_CHORDS: ChordData[];
+export declare const MAJOR_9_CHORDS: ChordData[];
+export declare const DOMINANT_9_CHORDS: ChordData[];
+export declare const MINOR_9_CHORDS: ChordData[];
+export declare const MAJOR_11_CHORDS: ChordData[];
+export declare const DOMINANT_11_CHORDS: ChordData[];
+export declare const MINOR_11_CHORDS: ChordData[];
+export declare const MAJOR_13_CHORDS: ChordData[];
+export declare const DOMINANT_13_CHORDS: ChordData[];
+export declare const MINOR_13_CHORDS: ChordData[];
+export declare const MAJOR_7_SHARP_11_CHORDS: ChordData[];
+export declare const MAJOR_9_SHARP_11_CHORDS: ChordData[];
+export declare const DOMINANT_9_SUS4_CHORDS: ChordData[];
+export declare const DOMINANT_13_SUS4_CHORDS: ChordData[];
+export declare const DOMINANT_7_FLAT_9_CHORDS: ChordData[];
+export declare const DOMINANT_7_SHARP_9_CHORDS: ChordData[];
+export declare const DOMINANT_7_SHARP_11_CHORDS: ChordData[];
+export declare const DOMINANT_7_FLAT_5_CHORDS: ChordData[];
+export declare const DOMINANT_7_FLAT_13_CHORDS: ChordData[];
+export declare const DOMINANT_7_FLAT_9_FLAT_13_CHORDS: ChordData[];
+export declare const DOMINANT_7_SHARP_5_FLAT_9_CHORDS: ChordData[];
+export declare const DOMINANT_7_SHARP_5_SHARP_9_CHORDS: ChordData[];
+export declare const DOMINANT_9_SHARP_11_CHORDS: ChordData[];
+export declare const DOMINANT_13_FLAT_9_CHORDS: ChordData[];
+export declare const DOMINANT_13_SHARP_11_CHORDS: ChordData[];
+export declare const ALTERED_CHORDS: ChordData[];
+export declare const ITALIAN_SIXTH_CHORDS: ChordData[];
+export declare const FRENCH_SIXTH_CHORDS: ChordData[];
+export declare const GERMAN_SIXTH_CHORDS: ChordData[];
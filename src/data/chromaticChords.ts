@@ -0,0 +1,158 @@
+// Chromatic chords for a key: secondary dominants and leading-tone chords,
+// modal interchange from the parallel key, the Neapolitan and augmented sixths
+import { ChordData } from './chordDatabase';
+import { HarmonicLayer, KeyData, buildKey, getDiatonicChords } from './chordData';
+import { parseChordSymbol } from './chordParser';
+import { getChordQuality } from './chordQualities';
+import { HarmonicFunction, getHarmonicFunction, getRomanNumeral } from './romanNumerals';
+import { formatNoteName, parseNoteName, spellNote } from './spelling';
+
+export type ChromaticCategory = 'secondary' | 'interchange' | 'neapolitan' | 'augmented-sixth';
+
+export interface ChromaticChord {
+  id: string;                  // Stable across harmonic layers, e.g. "secondary-dominant:1"
+  label: string;               // Functional label, e.g. "V7/ii", "♭VI", "Ger+6"
+  chord: string;               // Chord symbol, e.g. "A7"
+  category: ChromaticCategory;
+  function: HarmonicFunction;
+  chordData: ChordData;        // Spelled notes and MIDI numbers for the diagrams
+}
+
+export const CHROMATIC_CATEGORY_LABELS: { [key in ChromaticCategory]: string } = {
+  secondary: 'Secondary',
+  interchange: 'Borrowed',
+  neapolitan: 'Neapolitan',
+  'augmented-sixth': 'Augmented 6th',
+};
+
+// Augmented sixths above the ♭6: semitones and letter steps from the tonic for each
+// upper tone, spelled so the ♯4 forms an augmented sixth with the bass
+const AUGMENTED_SIXTHS: { id: string; label: string; suffix: string; quality: string; tones: [number, number][] }[] = [
+  { id: 'italian', label: 'It+6', suffix: '7no5', quality: 'italian-sixth', tones: [[0, 0], [6, 3]] },
+  { id: 'french', label: 'Fr+6', suffix: '7♭5', quality: 'french-sixth', tones: [[0, 0], [2, 1], [6, 3]] },
+  { id: 'german', label: 'Ger+6', suffix: '7', quality: 'german-sixth', tones: [[0, 0], [3, 2], [6, 3]] },
+];
+
+// Root a number of letters and semitones above the tonic, in display form
+function rootAbove(key: KeyData, letterSteps: number, semitones: number): string | null {
+  const tonic = parseNoteName(key.scale[0]);
+  if (!tonic) return null;
+  return formatNoteName(spellNote(tonic.letter + letterSteps, tonic.pitchClass + semitones));
+}
+
+// The parallel key: minor for keys with a major third, major otherwise
+function parallelKey(key: KeyData): KeyData {
+  const tonic = parseNoteName(key.scale[0]);
+  const third = parseNoteName(key.scale[2]);
+  const isMajor = tonic && third && (third.pitchClass - tonic.pitchClass + 12) % 12 === 4;
+  return buildKey(key.scale[0], isMajor ? 'Minor' : 'Major');
+}
+
+// V and vii° of every major or minor diatonic triad other than the tonic.
+// The triad layer gives triads; every other layer gives V7 and vii°7.
+function secondaryChords(key: KeyData, layer: HarmonicLayer): Omit<ChromaticChord, 'chordData'>[] {
+  const useSevenths = layer !== 'triads';
+  const chords: Omit<ChromaticChord, 'chordData'>[] = [];
+
+  getDiatonicChords(key, 'triads').forEach(({ degree, chord }) => {
+    const target = getRomanNumeral(key, chord);
+    const targetRoot = parseNoteName(key.scale[degree]);
+    if (degree === 0 || !target || !targetRoot || /[°ø+]/.test(target.numeral)) return;
+
+    const dominantRoot = formatNoteName(spellNote(targetRoot.letter + 4, targetRoot.pitchClass + 7));
+    const leadingRoot = formatNoteName(spellNote(targetRoot.letter + 6, targetRoot.pitchClass + 11));
+
+    chords.push({
+      id: `secondary-dominant:${degree}`,
+      label: `${useSevenths ? 'V7' : 'V'}/${target.numeral}`,
+      chord: dominantRoot + (useSevenths ? '7' : ''),
+      category: 'secondary',
+      function: 'dominant',
+    });
+    chords.push({
+      id: `secondary-leading-tone:${degree}`,
+      label: `${useSevenths ? 'vii°7' : 'vii°'}/${target.numeral}`,
+      chord: leadingRoot + (useSevenths ? '°7' : '°'),
+      category: 'secondary',
+      function: 'dominant',
+    });
+  });
+
+  return chords;
+}
+
+// Chords of the parallel key in the same layer, named against the current key
+function interchangeChords(key: KeyData, layer: HarmonicLayer): Omit<ChromaticChord, 'chordData'>[] {
+  const chords: Omit<ChromaticChord, 'chordData'>[] = [];
+
+  getDiatonicChords(parallelKey(key), layer).forEach(({ degree, chord }) => {
+    const analysis = getRomanNumeral(key, chord);
+    if (!analysis) return;
+
+    chords.push({
+      id: `interchange:${degree}`,
+      label: analysis.numeral,
+      chord,
+      category: 'interchange',
+      function: getHarmonicFunction(degree),
+    });
+  });
+
+  return chords;
+}
+
+function augmentedSixthChords(key: KeyData): ChromaticChord[] {
+  const tonic = parseNoteName(key.scale[0]);
+  const bass = rootAbove(key, 5, 8);
+  if (!tonic || !bass) return [];
+
+  const bassMidi = 60 + (tonic.pitchClass + 8) % 12;
+
+  return AUGMENTED_SIXTHS.map(({ id, label, suffix, quality, tones }) => {
+    const upper = tones.map(([semitones, letterSteps]) => ({
+      name: spellNote(tonic.letter + letterSteps, tonic.pitchClass + semitones),
+      midi: bassMidi + ((tonic.pitchClass + semitones - (bassMidi % 12) + 12) % 12),
+    }));
+
+    return {
+      id: `augmented-sixth:${id}`,
+      label,
+      chord: bass + suffix,
+      category: 'augmented-sixth' as const,
+      function: 'subdominant' as const,
+      chordData: {
+        name: label,
+        notes: [spellNote(tonic.letter + 5, tonic.pitchClass + 8), ...upper.map(note => note.name)],
+        midiNotes: [bassMidi, ...upper.map(note => note.midi)],
+        quality: getChordQuality(quality),
+      },
+    };
+  });
+}
+
+// Every chromatic option for a key and layer. Chords that are already diatonic
+// (as triads or in the layer) are left out, as are later duplicates of the same chord.
+export function getChromaticChords(key: KeyData, layer: HarmonicLayer): ChromaticChord[] {
+  const diatonic = new Set([...key.chords, ...getDiatonicChords(key, layer).map(({ chord }) => chord)]);
+  const seen = new Set<string>();
+  const chords: ChromaticChord[] = [];
+
+  // The Neapolitan sixth: the major triad on ♭II in first inversion, over the 4th degree.
+  // It is left out where ♭II is already a diatonic triad (Phrygian).
+  const neapolitanRoot = rootAbove(key, 1, 1);
+  const neapolitanBass = rootAbove(key, 3, 5);
+  const neapolitan: Omit<ChromaticChord, 'chordData'>[] = neapolitanRoot && neapolitanBass && !diatonic.has(neapolitanRoot)
+    ? [{ id: 'neapolitan', label: 'N6', chord: `${neapolitanRoot}/${neapolitanBass}`, category: 'neapolitan', function: 'subdominant' }]
+    : [];
+
+  [...secondaryChords(key, layer), ...interchangeChords(key, layer), ...neapolitan].forEach((item) => {
+    if (diatonic.has(item.chord) || seen.has(item.chord)) return;
+    const chordData = parseChordSymbol(item.chord);
+    if (!chordData) return;
+
+    seen.add(item.chord);
+    chords.push({ ...item, chordData });
+  });
+
+  return [...chords, ...augmentedSixthChords(key)];
+}
@@ -0,0 +1,65 @@
+// Circle of fifths: major keys clockwise by fifths from C, with each one's relative
+// minor and leading-tone diminished triad on the inner rings
+import { CHORD_CHART, KeyData } from './chordData';
+import { parseChordSymbolStructure } from './chordParser';
+import { getRomanNumeral } from './romanNumerals';
+import { parseNoteName } from './spelling';
+
+export type CircleRing = 'major' | 'minor' | 'diminished';
+
+export interface CircleSegment {
+  position: number;     // 0 = C at the top, then clockwise by fifths
+  major: KeyData;
+  minor: KeyData;       // Relative minor
+  diminished: string;   // Leading-tone triad of the major key, e.g. "B°"
+}
+
+// A diatonic triad of the current key, placed on the circle
+export interface CircleHighlight {
+  ring: CircleRing;
+  position: number;
+  chord: string;
+  numeral: string | null;
+}
+
+const mod12 = (value: number) => ((value % 12) + 12) % 12;
+
+// Position of the major key whose ring holds a triad: minor triads sit under their
+// relative major (a minor 3rd up), diminished ones under the major a semitone up
+const RING_OFFSETS: { [ring in CircleRing]: number } = { major: 0, minor: 3, diminished: 1 };
+
+function circlePosition(pitchClass: number, ring: CircleRing): number {
+  return mod12(7 * (pitchClass + RING_OFFSETS[ring]));
+}
+
+function tonicPitchClass(key: KeyData): number {
+  return parseNoteName(key.scale[0])?.pitchClass ?? 0;
+}
+
+export function getCircleOfFifths(): CircleSegment[] {
+  const majors = CHORD_CHART.filter(key => key.type === 'Major');
+  const minors = CHORD_CHART.filter(key => key.type === 'Minor');
+
+  return Array.from({ length: 12 }, (_, position) => {
+    const pitchClass = mod12(7 * position);
+    const major = majors.find(key => tonicPitchClass(key) === pitchClass) as KeyData;
+    const minor = minors.find(key => tonicPitchClass(key) === mod12(pitchClass + 9)) as KeyData;
+    return { position, major, minor, diminished: `${major.scale[6]}°` };
+  });
+}
+
+// Where each major, minor and diminished triad of a key falls on the circle
+export function getCircleHighlights(key: KeyData): CircleHighlight[] {
+  return key.chords.flatMap((chord) => {
+    const parsed = parseChordSymbolStructure(chord);
+    const quality = parsed?.quality.id;
+    if (!parsed || (quality !== 'major' && quality !== 'minor' && quality !== 'diminished')) return [];
+
+    return [{
+      ring: quality,
+      position: circlePosition(parsed.rootPitchClass, quality),
+      chord,
+      numeral: getRomanNumeral(key, chord)?.numeral ?? null,
+    }];
+  });
+}
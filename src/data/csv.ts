@@ -0,0 +1,93 @@
+// RFC 4180 CSV reader: quoted fields with embedded commas, line breaks and doubled
+// quotes, LF or CRLF line endings, plus blank lines and '#' comment lines skipped
+export interface CsvRecord {
+  line: number;      // 1-based line the record starts on
+  fields: string[];
+}
+
+export interface CsvReadError {
+  line: number;
+  message: string;
+}
+
+export interface CsvReadResult {
+  records: CsvRecord[];
+  errors: CsvReadError[];
+}
+
+export function readCsv(text: string): CsvReadResult {
+  const records: CsvRecord[] = [];
+  const errors: CsvReadError[] = [];
+
+  // Drop a UTF-8 byte-order mark left by spreadsheet exports
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quoted = false;   // The current field was quoted, so it is kept even if empty
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    fields.push(quoted ? field : field.trim());
+    field = '';
+    quoted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    const isBlank = fields.length === 1 && fields[0] === '';
+    if (!isBlank) records.push({ line: recordLine, fields });
+    fields = [];
+  };
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    // A comment runs to the end of its line
+    const atRecordStart = fields.length === 0 && field.trim() === '' && !quoted;
+    if (char === '#' && atRecordStart) {
+      while (index + 1 < input.length && input[index + 1] !== '\n' && input[index + 1] !== '\r') index++;
+      field = '';
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '' && !quoted) {
+      inQuotes = true;
+      quoted = true;
+      field = '';
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      // Text after a closing quote is kept, so "a"b reads as ab
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    errors.push({ line: recordLine, message: 'Unterminated quoted field' });
+  } else if (field !== '' || fields.length > 0 || quoted) {
+    endRecord();
+  }
+
+  return { records, errors };
+}
@@ -0,0 +1,106 @@
+// Key detection: rank every key and mode by how well a set of chords fits it
+import { ChordData } from './chordDatabase';
+import { CHORD_CHART, KeyData, ScaleType } from './chordData';
+import { parseChordSymbolStructure } from './chordParser';
+import { getRomanNumeral } from './romanNumerals';
+import { notePitchClass } from './spelling';
+
+export interface ChordReading {
+  chord: ChordData;
+  numeral: string | null; // Roman numeral in the candidate key
+  diatonic: boolean;      // Every note of the chord is in the key (raised 7th allowed in minor)
+}
+
+export interface KeyCandidate {
+  key: KeyData;
+  score: number;       // Higher is a better fit
+  fit: number;         // Share of the chords' notes that are in the scale, 0-1
+  readings: ChordReading[];
+}
+
+// Small preference for common keys so that, e.g., C major beats D Dorian on the
+// same notes when nothing else separates them
+const TYPE_BIAS: { [type in ScaleType]?: number } = {
+  Major: 0.3,
+  Minor: 0.25,
+  Dorian: 0.1,
+  Phrygian: 0.1,
+  Lydian: 0.1,
+  Mixolydian: 0.1,
+  Locrian: 0.05,
+  'Harmonic Minor': 0.05,
+  'Melodic Minor': 0.05,
+};
+
+function chordPitchClasses(chord: ChordData): number[] {
+  return chord.notes
+    .map(note => notePitchClass(note))
+    .filter((pitchClass): pitchClass is number => pitchClass !== null);
+}
+
+// The chord's root, read from its name so slash chords aren't rooted on the bass
+function chordRootPitchClass(chord: ChordData): number | null {
+  return parseChordSymbolStructure(chord.name)?.rootPitchClass ?? notePitchClass(chord.notes[0] ?? '');
+}
+
+// Pitch classes that count as in the key. Minor keys also accept the raised
+// seventh, so V and V7 read as diatonic as they do in harmonic minor.
+function keyPitchClasses(key: KeyData, tonic: number): Set<number> {
+  const pitchClasses = new Set(key.scale.map(note => notePitchClass(note) ?? tonic));
+  if (key.type === 'Minor') {
+    pitchClasses.add((tonic + 11) % 12);
+  }
+  return pitchClasses;
+}
+
+// A chord holding the tritone of the key's V7 (leading note and 4th) on the dominant root
+function isDominantSeventh(chord: ChordData, tonic: number): boolean {
+  const pitchClasses = chordPitchClasses(chord);
+  return chordRootPitchClass(chord) === (tonic + 7) % 12
+    && pitchClasses.includes((tonic + 11) % 12)
+    && pitchClasses.includes((tonic + 5) % 12);
+}
+
+// Score one key: the share of each chord's notes in the scale, a bonus for fully
+// diatonic chords, a bonus for a diatonic chord on the tonic (more if the
+// progression starts or ends there) and one for a diatonic V7
+function scoreKey(key: KeyData, chords: ChordData[]): KeyCandidate {
+  const tonic = notePitchClass(key.scale[0]) ?? 0;
+  const scale = keyPitchClasses(key, tonic);
+  let inScale = 0;
+  let total = 0;
+  let score = TYPE_BIAS[key.type] ?? 0;
+  let hasDominant = false;
+
+  const readings = chords.map((chord, index) => {
+    const pitchClasses = chordPitchClasses(chord);
+    const matching = pitchClasses.filter(pitchClass => scale.has(pitchClass)).length;
+    const diatonic = pitchClasses.length > 0 && matching === pitchClasses.length;
+
+    inScale += matching;
+    total += pitchClasses.length;
+    score += pitchClasses.length > 0 ? matching / pitchClasses.length : 0;
+    if (diatonic) score += 0.5;
+
+    if (diatonic && isDominantSeventh(chord, tonic)) hasDominant = true;
+    if (diatonic && chordRootPitchClass(chord) === tonic) {
+      const isEdge = index === 0 || index === chords.length - 1;
+      score += isEdge ? 1.5 : 1;
+    }
+
+    return { chord, numeral: getRomanNumeral(key, chord.name)?.numeral ?? null, diatonic };
+  });
+
+  if (hasDominant) score += 1;
+
+  return { key, score, fit: total > 0 ? inScale / total : 0, readings };
+}
+
+// Every key in the chart, best fit first
+export function detectKeys(chords: ChordData[]): KeyCandidate[] {
+  if (chords.length === 0) return [];
+
+  return CHORD_CHART
+    .map(key => scoreKey(key, chords))
+    .sort((a, b) => b.score - a.score);
+}
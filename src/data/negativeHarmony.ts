@@ -0,0 +1,63 @@
+// Negative harmony: chords reflected around the axis between a key's tonic and
+// dominant, so in C major C ↔ G, E ↔ E♭ and G7 becomes Dm7♭5
+import { ChordData } from './chordDatabase';
+import { identifyChord } from './chordIdentifier';
+import { parseChordSymbol } from './chordParser';
+import { KeyContext, parseNoteName, spellNote } from './spelling';
+
+export interface NegativeChord {
+  notes: string[];          // Mirrored notes, spelled, lowest first
+  midiNotes: number[];      // Mirrored voicing, in about the original register
+  name: string | null;      // Best-matching chord name, null if no database chord matches
+  chord: ChordData | null;  // That chord, ready to add to a collection
+}
+
+// Reflect a note name around the key's axis. Letters are reflected as well as
+// pitch classes, so E♭ major's G becomes G♭ rather than F♯.
+export function mirrorNote(noteName: string, key: KeyContext): string | null {
+  const tonic = parseNoteName(key.scale[0] ?? '');
+  const note = parseNoteName(noteName);
+  if (!tonic || !note) return null;
+
+  return spellNote(2 * tonic.letter + 4 - note.letter + 7, 2 * tonic.pitchClass + 7 - note.pitchClass + 12);
+}
+
+// Mirror a chord's notes and voicing. The reflection turns the voicing upside down,
+// so it is moved by octaves to start near the original lowest note.
+export function mirrorChord(chord: ChordData, key: KeyContext): { notes: string[]; midiNotes: number[] } | null {
+  const tonic = parseNoteName(key.scale[0] ?? '');
+  if (!tonic || chord.midiNotes.length === 0) return null;
+
+  const axis = 2 * (60 + tonic.pitchClass) + 7;
+  const mirrored = chord.midiNotes
+    .map((midi, index) => ({ midi: axis - midi, name: mirrorNote(chord.notes[index], key) }))
+    .sort((a, b) => a.midi - b.midi);
+  if (mirrored.some(note => note.name === null)) return null;
+
+  const originalLowest = Math.min(...chord.midiNotes);
+  const shift = 12 * Math.round((originalLowest - mirrored[0].midi) / 12);
+
+  return {
+    notes: mirrored.map(note => note.name as string),
+    midiNotes: mirrored.map(note => note.midi + shift),
+  };
+}
+
+// The negative of a chord, named by the simplest database chord with the same notes.
+// Chords holding every note beat an added bass (Dm7♭5 rather than Fm/D), and among
+// enharmonic equivalents (C♯m, D♭m) the one spelled like the mirrored notes wins.
+export function getNegativeChord(chord: ChordData, key: KeyContext): NegativeChord | null {
+  const mirrored = mirrorChord(chord, key);
+  if (!mirrored) return null;
+
+  const matches = identifyChord(mirrored.midiNotes);
+  const complete = matches.filter(candidate => candidate.inversion >= 0);
+  const spelled = new Set(mirrored.notes);
+  const match = complete.find(candidate => candidate.chord.notes.every(note => spelled.has(note)))
+    ?? complete[0] ?? matches[0];
+  return {
+    ...mirrored,
+    name: match?.name ?? null,
+    chord: match ? parseChordSymbol(match.name) ?? match.chord : null,
+  };
+}
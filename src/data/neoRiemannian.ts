@@ -0,0 +1,128 @@
+// Neo-Riemannian transformations of major and minor triads. P, L and R each move a
+// single voice by a semitone or whole tone; compounds chain them for chromatic mediants.
+import { ChordData } from './chordDatabase';
+import { parseChordSymbol } from './chordParser';
+import { parseNoteName, spellNote } from './spelling';
+
+export type NeoRiemannianOperation = 'P' | 'L' | 'R';
+
+export interface NeoRiemannianTransform {
+  id: string;
+  name: string;
+  operations: NeoRiemannianOperation[];  // Applied left to right
+}
+
+export const NEO_RIEMANNIAN_TRANSFORMS: NeoRiemannianTransform[] = [
+  { id: 'P', name: 'Parallel', operations: ['P'] },
+  { id: 'L', name: 'Leading-tone exchange', operations: ['L'] },
+  { id: 'R', name: 'Relative', operations: ['R'] },
+  { id: 'N', name: 'Nebenverwandt (RLP)', operations: ['R', 'L', 'P'] },
+  { id: 'S', name: 'Slide (LPR)', operations: ['L', 'P', 'R'] },
+  { id: 'H', name: 'Hexatonic pole (LPL)', operations: ['L', 'P', 'L'] },
+];
+
+interface Voice {
+  name: string;
+  midi: number;
+}
+
+// A triad voice by voice, so each voice can be followed through a transformation
+interface Triad {
+  root: Voice;
+  third: Voice;
+  fifth: Voice;
+  minor: boolean;
+}
+
+export interface NeoRiemannianStep {
+  transform: string;   // Transform id, e.g. "L" or "N"
+  chord: ChordData;    // Resulting triad in root position, for the collection
+  notes: number[];     // Voicing reached by moving voices from the previous chord
+  noteNames: string[];
+  movingNotes: number[];  // Voices the transform moved, in the new voicing
+}
+
+// Keep a chain of transformations near the middle of the keyboard
+const REGISTER_LOW = 57;
+const REGISTER_HIGH = 81;
+
+function move(voice: Voice, letterSteps: number, semitones: number): Voice {
+  const note = parseNoteName(voice.name);
+  if (!note) return voice;
+  return { name: spellNote(note.letter + letterSteps, note.pitchClass + semitones + 12), midi: voice.midi + semitones };
+}
+
+function applyOperation(triad: Triad, operation: NeoRiemannianOperation): Triad {
+  const { root, third, fifth, minor } = triad;
+
+  switch (operation) {
+    case 'P':
+      return { root, third: move(third, 0, minor ? 1 : -1), fifth, minor: !minor };
+    case 'L':
+      return minor
+        ? { root: move(fifth, 1, 1), third: root, fifth: third, minor: false }
+        : { root: third, third: fifth, fifth: move(root, -1, -1), minor: true };
+    case 'R':
+      return minor
+        ? { root: third, third: fifth, fifth: move(root, -1, -2), minor: false }
+        : { root: move(fifth, 1, 2), third: root, fifth: third, minor: true };
+  }
+}
+
+function toTriad(chord: ChordData): Triad | null {
+  const id = chord.quality.id;
+  if ((id !== 'major' && id !== 'minor') || chord.bass || chord.polychord) return null;
+
+  const [root, third, fifth] = chord.notes.map((name, index) => ({ name, midi: chord.midiNotes[index] }));
+  return { root, third, fifth, minor: id === 'minor' };
+}
+
+const voices = (triad: Triad) => [triad.root, triad.third, triad.fifth];
+
+// Major and minor triads (not slash chords) can be transformed
+export function isTransformableTriad(chord: ChordData): boolean {
+  return toTriad(chord) !== null;
+}
+
+// Apply a chain of transforms to a triad. Each step keeps the common tones where
+// they were and moves only the voices the transform changes.
+export function chainTransforms(chord: ChordData, transformIds: string[]): NeoRiemannianStep[] {
+  let triad = toTriad(chord);
+  if (!triad) return [];
+
+  const steps: NeoRiemannianStep[] = [];
+  for (const id of transformIds) {
+    const transform = NEO_RIEMANNIAN_TRANSFORMS.find(item => item.id === id);
+    if (!transform || !triad) break;
+
+    const before = voices(triad).map(voice => voice.midi);
+    let next: Triad = transform.operations.reduce(applyOperation, triad);
+
+    // Shift the whole voicing an octave if a chain has drifted out of the middle register
+    const center = voices(next).reduce((sum, voice) => sum + voice.midi, 0) / 3;
+    const shift = center > REGISTER_HIGH ? -12 : center < REGISTER_LOW ? 12 : 0;
+    if (shift !== 0) {
+      const shifted = (voice: Voice) => ({ ...voice, midi: voice.midi + shift });
+      next = { ...next, root: shifted(next.root), third: shifted(next.third), fifth: shifted(next.fifth) };
+    }
+
+    const result = parseChordSymbol(`${next.root.name}${next.minor ? 'm' : ''}`);
+    if (!result) break;
+
+    const sorted = voices(next).sort((a, b) => a.midi - b.midi);
+    steps.push({
+      transform: id,
+      chord: result,
+      notes: sorted.map(voice => voice.midi),
+      noteNames: sorted.map(voice => voice.name),
+      movingNotes: sorted.map(voice => voice.midi).filter(midi => !before.includes(midi - shift)),
+    });
+    triad = next;
+  }
+
+  return steps;
+}
+
+export function transformTriad(chord: ChordData, transformId: string): NeoRiemannianStep | null {
+  return chainTransforms(chord, [transformId])[0] ?? null;
+}
@@ -0,0 +1,121 @@
+// Labels printed under the keys of a keyboard diagram, in several naming systems
+import { MAJOR_SCALE } from './chordData';
+import { KeyContext, formatNoteName, parseNoteName } from './spelling';
+
+export type NoteLabelMode = 'name' | 'interval' | 'degree' | 'midi' | 'octave' | 'solfege';
+
+export const NOTE_LABEL_MODES: { value: NoteLabelMode; label: string }[] = [
+  { value: 'name', label: 'Note names' },
+  { value: 'interval', label: 'Intervals' },
+  { value: 'degree', label: 'Scale degrees' },
+  { value: 'midi', label: 'MIDI numbers' },
+  { value: 'octave', label: 'Octave names' },
+  { value: 'solfege', label: 'Solfège' },
+];
+
+export interface NoteLabelContext {
+  root?: string;        // Chord root, for intervals
+  rootMidi?: number;    // Root at or below the voicing's lowest note, for compound intervals
+  key?: KeyContext;     // Key, for scale degrees and movable-do solfège
+}
+
+// Movable-do syllables by scale degree for lowered, natural and raised notes;
+// notes without a syllable of their own (e.g. ♯3) get an accidental instead
+const SOLFEGE: { [alteration: number]: (string | null)[] } = {
+  [-1]: [null, 'ra', 'me', null, 'se', 'le', 'te'],
+  0: ['do', 're', 'mi', 'fa', 'sol', 'la', 'ti'],
+  1: ['di', 'ri', null, 'fi', 'si', 'li', null],
+};
+
+// Fixed-do syllables by letter, used when there is no key
+const FIXED_DO = ['Do', 'Re', 'Mi', 'Fa', 'Sol', 'La', 'Si'];
+
+function accidentalGlyphs(alteration: number): string {
+  return alteration < 0 ? '♭'.repeat(-alteration) : '♯'.repeat(alteration);
+}
+
+// Letter distance (0-6) and chromatic alteration of a note against the major scale
+// on a reference note, e.g. E♭ over C is degree 2 (a 3rd), alteration -1
+function degreeFrom(reference: string, noteName: string): { degree: number; alteration: number } | null {
+  const from = parseNoteName(reference);
+  const note = parseNoteName(noteName);
+  if (!from || !note) return null;
+
+  const degree = (note.letter - from.letter + 7) % 7;
+  let alteration = (note.pitchClass - from.pitchClass - MAJOR_SCALE[degree] + 24) % 12;
+  if (alteration > 6) alteration -= 12;
+  return { degree, alteration };
+}
+
+// Interval of a note above a chord root: R, ♭3, 5, ♭7, with 2nds, 4ths and 6ths
+// more than an octave above the root written as 9, 11 and 13
+export function intervalLabel(noteName: string, midi: number, root: string, rootMidi?: number): string | null {
+  const interval = degreeFrom(root, noteName);
+  if (!interval) return null;
+  if (interval.degree === 0 && interval.alteration === 0) return 'R';
+
+  const isCompound = rootMidi !== undefined && midi - rootMidi > 12 && interval.degree % 2 === 1;
+  const number = interval.degree + 1 + (isCompound ? 7 : 0);
+  return `${accidentalGlyphs(interval.alteration)}${number}`;
+}
+
+// Degree of a note in a key: its position in the key's scale, with ♭/♯ for notes
+// outside it (F♯ in C major is ♯4)
+export function scaleDegreeLabel(noteName: string, key: KeyContext): string | null {
+  const tonic = key.scale[0];
+  const interval = tonic ? degreeFrom(tonic, noteName) : null;
+  const scaleNote = interval ? key.scale[interval.degree] : undefined;
+  if (!interval || !scaleNote) return null;
+
+  const note = parseNoteName(noteName);
+  const diatonic = parseNoteName(scaleNote);
+  if (!note || !diatonic) return null;
+  return `${accidentalGlyphs(note.accidental - diatonic.accidental)}${interval.degree + 1}`;
+}
+
+// Octave-qualified name with C4 = MIDI 60; the octave follows the letter, so
+// B♯3 and C4 share a key
+export function octaveName(noteName: string, midi: number): string {
+  const note = parseNoteName(noteName);
+  const octave = Math.floor((midi - (note?.accidental ?? 0)) / 12) - 1;
+  return `${formatNoteName(noteName)}${octave}`;
+}
+
+// Movable-do solfège against the key's tonic (do-based minor), or fixed do without a key
+export function solfegeLabel(noteName: string, key?: KeyContext): string | null {
+  if (key && key.scale.length > 0) {
+    const interval = degreeFrom(key.scale[0], noteName);
+    if (!interval) return null;
+    return SOLFEGE[interval.alteration]?.[interval.degree]
+      ?? `${accidentalGlyphs(interval.alteration)}${SOLFEGE[0][interval.degree]}`;
+  }
+
+  const note = parseNoteName(noteName);
+  return note ? `${FIXED_DO[note.letter]}${accidentalGlyphs(note.accidental)}` : null;
+}
+
+// Label for one key in the chosen mode. Modes that need a root or key fall back
+// to the note name without one.
+export function noteLabel(noteName: string, midi: number, mode: NoteLabelMode, context: NoteLabelContext = {}): string {
+  let label: string | null = null;
+
+  switch (mode) {
+    case 'interval':
+      label = context.root ? intervalLabel(noteName, midi, context.root, context.rootMidi) : null;
+      break;
+    case 'degree':
+      label = context.key ? scaleDegreeLabel(noteName, context.key) : null;
+      break;
+    case 'midi':
+      label = String(midi);
+      break;
+    case 'octave':
+      label = octaveName(noteName, midi);
+      break;
+    case 'solfege':
+      label = solfegeLabel(noteName, context.key);
+      break;
+  }
+
+  return label ?? formatNoteName(noteName);
+}
@@ -0,0 +1,144 @@
+// Pitch-class set analysis (normal form, prime form, Forte number, interval-class
+// vector) of a chord's notes, and the database chords that share its set class
+import { ChordData, loadChordDatabase } from './chordDatabase';
+
+export interface PitchClassSetAnalysis {
+  pitchClasses: number[];    // Distinct pitch classes, ascending (C = 0)
+  normalForm: number[];      // Most compact rotation, e.g. [7, 11, 2] for G major
+  primeForm: number[];       // Transposed/inverted to start on 0 and pack left (Rahn), e.g. [0, 3, 7]
+  forteNumber: string | null;  // e.g. "3-11"; null for sets with fewer than 2 or more than 9 notes
+  intervalVector: number[];  // Counts of interval classes 1–6
+}
+
+// Forte's prime forms for three to six notes, in catalogue order. Prime forms use
+// Rahn's packing, which differs from Forte's own table only for 5-20, 6-Z29 and 6-31.
+const FORTE_PRIME_FORMS: { [cardinality: number]: string[] } = {
+  3: ['012', '013', '014', '015', '016', '024', '025', '026', '027', '036', '037', '048'],
+  4: [
+    '0123', '0124', '0134', '0125', '0126', '0127', '0145', '0156', '0167', '0235',
+    '0135', '0236', '0136', '0237', '0146', '0157', '0347', '0147', '0148', '0158',
+    '0246', '0247', '0257', '0248', '0268', '0358', '0258', '0369', '0137',
+  ],
+  5: [
+    '01234', '01235', '01245', '01236', '01237', '01256', '01267', '02346', '01246', '01346',
+    '02347', '01356', '01248', '01257', '01268', '01347', '01348', '01457', '01367', '01568',
+    '01458', '01478', '02357', '01357', '02358', '02458', '01358', '02368', '01368', '01468',
+    '01369', '01469', '02468', '02469', '02479', '01247', '03458', '01258',
+  ],
+  6: [
+    '012345', '012346', '012356', '012456', '012367', '012567', '012678', '023457', '012357', '013457',
+    '012457', '012467', '013467', '013458', '012458', '014568', '012478', '012578', '013478', '014589',
+    '023468', '012468', '023568', '013468', '013568', '013578', '013469', '013569', '023679', '013679',
+    '014579', '024579', '023579', '013579', '02468T', '012347', '012348', '012378', '023458', '012358',
+    '012368', '012369', '012568', '012569', '023469', '012469', '012479', '012579', '013479', '014679',
+  ],
+};
+
+// Z-related set classes share an interval vector without being related by transposition or inversion
+const Z_NUMBERS: { [cardinality: number]: number[] } = {
+  4: [15, 29],
+  5: [12, 17, 18, 36, 37, 38],
+  6: [3, 4, 6, 10, 11, 12, 13, 17, 19, 23, 24, 25, 26, 28, 29, 36, 37, 38, 39, 40, 41, 42, 43, 44, 45, 46, 47, 48, 49, 50],
+};
+
+const mod12 = (value: number) => ((value % 12) + 12) % 12;
+
+export function formatPitchClass(pitchClass: number): string {
+  return pitchClass === 10 ? 'T' : pitchClass === 11 ? 'E' : String(pitchClass);
+}
+
+// Compact notation, e.g. "037" or "02468T"
+export const pitchClassKey = (set: number[]) => set.map(formatPitchClass).join('');
+
+export function toPitchClasses(midiNotes: number[]): number[] {
+  return [...new Set(midiNotes.map(mod12))].sort((a, b) => a - b);
+}
+
+// Every rotation of an ascending set, transposed so that each starts where it began
+function rotations(set: number[]): number[][] {
+  return set.map((_, start) => [...set.slice(start), ...set.slice(0, start).map(pc => pc + 12)]);
+}
+
+// Rahn's ordering: the smaller span wins, then the smaller interval from the first
+// note to the second-to-last, third-to-last... and finally the lower first note
+function comparePacking(a: number[], b: number[]): number {
+  for (let index = a.length - 1; index > 0; index--) {
+    const difference = (a[index] - a[0]) - (b[index] - b[0]);
+    if (difference !== 0) return difference;
+  }
+  return a[0] - b[0];
+}
+
+export function normalForm(pitchClasses: number[]): number[] {
+  if (pitchClasses.length === 0) return [];
+  const [best] = rotations(pitchClasses).sort(comparePacking);
+  return best.map(mod12);
+}
+
+export function primeForm(pitchClasses: number[]): number[] {
+  if (pitchClasses.length === 0) return [];
+  const inversion = toPitchClasses(pitchClasses.map(pc => 12 - pc));
+  const candidates = [normalForm(pitchClasses), normalForm(inversion)]
+    .map(form => form.map(pc => mod12(pc - form[0])));
+  const [best] = candidates.sort(comparePacking);
+  return best;
+}
+
+export function intervalVector(pitchClasses: number[]): number[] {
+  const vector = [0, 0, 0, 0, 0, 0];
+  pitchClasses.forEach((a, index) => {
+    pitchClasses.slice(index + 1).forEach((b) => {
+      const interval = mod12(b - a);
+      vector[Math.min(interval, 12 - interval) - 1]++;
+    });
+  });
+  return vector;
+}
+
+function forteName(cardinality: number, ordinal: number): string {
+  const isZ = Z_NUMBERS[cardinality]?.includes(ordinal);
+  return `${cardinality}-${isZ ? 'Z' : ''}${ordinal}`;
+}
+
+function lookupForteNumber(prime: number[]): string | null {
+  const cardinality = prime.length;
+
+  // Dyads are numbered by their interval class
+  if (cardinality === 2) return `2-${intervalVector(prime).indexOf(1) + 1}`;
+
+  if (cardinality >= 3 && cardinality <= 6) {
+    const ordinal = FORTE_PRIME_FORMS[cardinality].indexOf(pitchClassKey(prime)) + 1;
+    return ordinal > 0 ? forteName(cardinality, ordinal) : null;
+  }
+
+  // Seven to nine notes share the number of their complement, Z included
+  if (cardinality >= 7 && cardinality <= 9) {
+    const complement = Array.from({ length: 12 }, (_, pc) => pc).filter(pc => !prime.includes(pc));
+    return lookupForteNumber(primeForm(complement))?.replace(/^\d+/, String(cardinality)) ?? null;
+  }
+
+  return null;
+}
+
+export function analyzePitchClassSet(midiNotes: number[]): PitchClassSetAnalysis {
+  const pitchClasses = toPitchClasses(midiNotes);
+  const prime = primeForm(pitchClasses);
+
+  return {
+    pitchClasses,
+    normalForm: normalForm(pitchClasses),
+    primeForm: prime,
+    forteNumber: lookupForteNumber(prime),
+    intervalVector: intervalVector(pitchClasses),
+  };
+}
+
+// Other database chords in the same set class (any transposition or inversion)
+export function findSetClassChords(chord: ChordData): ChordData[] {
+  const chords = loadChordDatabase();
+  const prime = pitchClassKey(primeForm(toPitchClasses(chord.midiNotes)));
+
+  return chords.filter(other =>
+    other.name !== chord.name && pitchClassKey(primeForm(toPitchClasses(other.midiNotes))) === prime
+  );
+}
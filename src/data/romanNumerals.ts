@@ -0,0 +1,91 @@
+// Roman-numeral analysis of chords within a key
+import { KeyData, MAJOR_SCALE } from './chordData';
+import { parseChordSymbolStructure } from './chordParser';
+import { parseNoteName } from './spelling';
+
+export type HarmonicFunction = 'tonic' | 'subdominant' | 'dominant';
+
+export interface RomanNumeralAnalysis {
+  degree: number;          // 0 = tonic ... 6 = leading note / subtonic
+  numeral: string;         // e.g. "ii7", "viiø7", "♭VII"
+  function: HarmonicFunction;
+}
+
+const NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+// Degrees grouped by the harmonic function they usually carry
+const DEGREE_FUNCTIONS: HarmonicFunction[] = [
+  'tonic', 'subdominant', 'tonic', 'subdominant', 'dominant', 'tonic', 'dominant',
+];
+
+export const FUNCTION_LABELS: { [key in HarmonicFunction]: string } = {
+  tonic: 'Tonic',
+  subdominant: 'Subdominant',
+  dominant: 'Dominant',
+};
+
+export function getHarmonicFunction(degree: number): HarmonicFunction {
+  return DEGREE_FUNCTIONS[((degree % 7) + 7) % 7];
+}
+
+// Scale degree of a chord root: its position in the key's scale, or its letter
+// distance from the tonic for chromatic roots
+function rootDegree(key: KeyData, root: string): number {
+  const index = key.scale.findIndex(note => parseNoteName(note)?.name === root);
+  if (index !== -1) return index;
+
+  const tonic = parseNoteName(key.scale[0]);
+  const parsedRoot = parseNoteName(root);
+  if (!tonic || !parsedRoot) return 0;
+  return (parsedRoot.letter - tonic.letter + 7) % 7;
+}
+
+// Quality symbol and figure for a chord suffix, e.g. "m7♭5" → { symbol: "ø", figure: "7" }
+function describeSuffix(suffix: string, isMinor: boolean, fifth: number, seventh: number | null) {
+  let figure = suffix;
+  let symbol = '';
+
+  if (isMinor && fifth === -1 && seventh === -1) {
+    symbol = 'ø';
+    figure = figure.replace(/^(ø|m)/, '').replace(/\(?b5\)?/, '');
+  } else if (isMinor && fifth === -1) {
+    symbol = '°';
+    figure = figure.replace(/^(dim|°|o|m)/, '').replace(/\(?b5\)?/, '');
+  } else if (fifth === 1 && !isMinor) {
+    symbol = '+';
+    figure = figure.replace(/^(aug|\+)/, '').replace(/\(?#5\)?/, '');
+  } else if (isMinor) {
+    figure = figure.replace(/^(min|mi|m(?!aj)|-)/, '');
+  }
+
+  figure = figure.replace(/b(?=\d)/g, '♭').replace(/#/g, '♯');
+  return { symbol, figure };
+}
+
+// Roman numeral for a chord in a key: case from the third, °/ø/+ from the fifth and
+// seventh, the chord's extensions as the figure and ♭/♯ for roots outside the major scale
+export function getRomanNumeral(key: KeyData, chord: string): RomanNumeralAnalysis | null {
+  const parsed = parseChordSymbolStructure(chord);
+  const tonic = parseNoteName(key.scale[0]);
+  if (!parsed || !tonic) return null;
+
+  const degree = rootDegree(key, parsed.root);
+  const interval = (parsed.rootPitchClass - tonic.pitchClass + 12) % 12;
+  let offset = interval - MAJOR_SCALE[degree];
+  if (offset > 6) offset -= 12;
+  if (offset < -6) offset += 12;
+  const accidental = offset < 0 ? '♭'.repeat(-offset) : '♯'.repeat(offset);
+
+  const toneAlteration = (degreeNumber: number) =>
+    parsed.tones.find(tone => tone.degree === degreeNumber)?.alteration ?? null;
+  const isMinor = toneAlteration(3) === -1;
+  const { symbol, figure } = describeSuffix(parsed.suffix, isMinor, toneAlteration(5) ?? 0, toneAlteration(7));
+
+  const base = isMinor ? NUMERALS[degree].toLowerCase() : NUMERALS[degree];
+
+  return {
+    degree,
+    numeral: `${accidental}${base}${symbol}${figure}`,
+    function: getHarmonicFunction(degree),
+  };
+}
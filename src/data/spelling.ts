@@ -0,0 +1,125 @@
+// Enharmonic spelling engine: one place that decides how every note is named
+// Chord data is stored with ASCII accidentals ("Bb", "F##"); formatNoteName turns
+// them into display glyphs ("B♭", "F𝄪").
+import type { ChordTone } from './chordParser';
+
+// Anything that knows its spelled scale can act as a key context (e.g. KeyData)
+export interface KeyContext {
+  scale: string[];
+}
+
+export interface ParsedNote {
+  name: string;        // ASCII spelling, e.g. "Eb" or "F##"
+  letter: number;      // Letter index, C = 0 ... B = 6
+  accidental: number;  // -2 (double flat) to +2 (double sharp)
+  pitchClass: number;
+}
+
+export const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_PITCH_CLASSES = [0, 2, 4, 5, 7, 9, 11];
+
+// Semitones above the root for each diatonic degree 1-7 of a major scale
+const DEGREE_SEMITONES = [0, 2, 4, 5, 7, 9, 11];
+
+const NOTE_PATTERN = /^([A-Ga-g])(##|bb|#|b|♯|♭|𝄪|𝄫)?$/;
+
+// Spelling used when there is no key context to follow
+const DEFAULT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const SHARP_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const FLAT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+// Normalise unicode accidentals to the ASCII forms used throughout the chord data
+export function normalizeAccidentals(text: string): string {
+  return text
+    .replace(/𝄪/g, '##')
+    .replace(/𝄫/g, 'bb')
+    .replace(/♯/g, '#')
+    .replace(/♭/g, 'b');
+}
+
+function accidentalText(offset: number): string {
+  return offset < 0 ? 'b'.repeat(-offset) : '#'.repeat(offset);
+}
+
+// Parse a single note name (e.g. "Bb", "F#", "E♯", "B𝄫") into its spelling and pitch class
+export function parseNoteName(noteName: string): ParsedNote | null {
+  const match = noteName.trim().match(NOTE_PATTERN);
+  if (!match) return null;
+
+  const letter = LETTERS.indexOf(match[1].toUpperCase());
+  const accidentalString = normalizeAccidentals(match[2] ?? '');
+  const accidental = accidentalString.startsWith('#') ? accidentalString.length : 0 - accidentalString.length;
+  const pitchClass = (LETTER_PITCH_CLASSES[letter] + accidental + 12) % 12;
+
+  return { name: LETTERS[letter] + accidentalString, letter, accidental, pitchClass };
+}
+
+// Pitch class of a note name, or null if it isn't one
+export function notePitchClass(noteName: string): number | null {
+  return parseNoteName(noteName)?.pitchClass ?? null;
+}
+
+// Display form of a note name with proper accidental glyphs
+export function formatNoteName(noteName: string): string {
+  return normalizeAccidentals(noteName)
+    .replace(/##/g, '𝄪')
+    .replace(/bb/g, '𝄫')
+    .replace(/#/g, '♯')
+    .replace(/(?<=[A-G])b/g, '♭');
+}
+
+// Spell a pitch class on a given letter; falls back to a plain name beyond double accidentals
+export function spellNote(letter: number, pitchClass: number): string {
+  const normalizedLetter = ((letter % 7) + 7) % 7;
+  let offset = (pitchClass - LETTER_PITCH_CLASSES[normalizedLetter] + 12) % 12;
+  if (offset > 6) offset -= 12;
+
+  if (Math.abs(offset) > 2) return DEFAULT_NAMES[((pitchClass % 12) + 12) % 12];
+  return LETTERS[normalizedLetter] + accidentalText(offset);
+}
+
+// Semitone distance of a chord tone above the root (9 = 14, 13 = 21, ...)
+export function toneSemitones(tone: ChordTone): number {
+  const octave = Math.floor((tone.degree - 1) / 7);
+  return DEGREE_SEMITONES[(tone.degree - 1) % 7] + 12 * octave + tone.alteration;
+}
+
+// Spell chord tones from a chord formula: each degree takes the letter that many
+// steps above the root, so a Caug7 gets B♭ (a 7th) rather than A♯ (a 6th)
+export function spellChordTones(root: string, tones: ChordTone[]): string[] {
+  const parsedRoot = parseNoteName(root);
+  if (!parsedRoot) return [];
+
+  return tones.map((tone) => {
+    if (tone.degree === 1 && tone.alteration === 0) return parsedRoot.name;
+    const pitchClass = (parsedRoot.pitchClass + toneSemitones(tone)) % 12;
+    return spellNote(parsedRoot.letter + tone.degree - 1, pitchClass);
+  });
+}
+
+// Spell a scale on consecutive letters so every degree gets its own letter name
+export function spellScale(tonic: string, intervals: number[]): string[] {
+  const parsedTonic = parseNoteName(tonic);
+  if (!parsedTonic) return [];
+
+  return intervals.map((interval, degree) =>
+    spellNote(parsedTonic.letter + degree, (parsedTonic.pitchClass + interval) % 12)
+  );
+}
+
+// Name a lone pitch class: use the key's own spelling if the note is diatonic,
+// otherwise follow the key signature's direction (sharps or flats)
+export function spellPitchClass(pitchClass: number, key?: KeyContext): string {
+  const normalized = ((pitchClass % 12) + 12) % 12;
+  if (!key || key.scale.length === 0) return DEFAULT_NAMES[normalized];
+
+  const diatonic = key.scale
+    .map(note => parseNoteName(note))
+    .find(parsed => parsed?.pitchClass === normalized);
+  if (diatonic) return diatonic.name;
+
+  const balance = key.scale.reduce((total, note) => total + (parseNoteName(note)?.accidental ?? 0), 0);
+  if (balance < 0) return FLAT_NAMES[normalized];
+  if (balance > 0) return SHARP_NAMES[normalized];
+  return DEFAULT_NAMES[normalized];
+}
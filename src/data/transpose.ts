@@ -0,0 +1,114 @@
+// Transposition of chords by semitones or from one key to another
+import { ChordData } from './chordDatabase';
+import { KeyData } from './chordData';
+import { buildPolychord, parseChordSymbol, parseChordSymbolStructure } from './chordParser';
+import { LETTERS, parseNoteName, spellNote } from './spelling';
+
+const mod12 = (value: number) => ((value % 12) + 12) % 12;
+
+// Total accidentals in a chord's spelling; double accidentals count extra
+function spellingWeight(chord: ChordData): number {
+  return chord.notes.reduce((total, note) => {
+    const accidental = Math.abs(parseNoteName(note)?.accidental ?? 0);
+    return total + (accidental > 1 ? 10 : accidental);
+  }, 0);
+}
+
+// Rebuild a chord on a new root (and bass), keeping its quality and extensions
+function rebuildChord(chord: ChordData, root: string, bass: string | null): ChordData | null {
+  const parsed = parseChordSymbolStructure(chord.name);
+  if (!parsed) return null;
+  return parseChordSymbol(`${root}${parsed.suffix}${bass ? `/${bass}` : ''}`);
+}
+
+// Move a chord by a number of letter steps and semitones, so every note keeps
+// its letter distance from the root and the bass
+function shiftChord(chord: ChordData, letterSteps: number, semitones: number): ChordData | null {
+  if (chord.polychord) {
+    const upper = shiftChord(chord.polychord.upper, letterSteps, semitones);
+    const lower = shiftChord(chord.polychord.lower, letterSteps, semitones);
+    return upper && lower ? buildPolychord(upper, lower) : null;
+  }
+
+  const parsed = parseChordSymbolStructure(chord.name);
+  const root = parsed && parseNoteName(parsed.root);
+  if (!parsed || !root) return null;
+
+  const shift = (note: { letter: number; pitchClass: number }) =>
+    spellNote(note.letter + letterSteps, mod12(note.pitchClass + semitones));
+  const bass = parsed.bass ? parseNoteName(parsed.bass) : null;
+
+  return rebuildChord(chord, shift(root), bass ? shift(bass) : null);
+}
+
+// Transpose a chord by semitones. The root is spelled whichever way gives the
+// chord the fewest accidentals (G♯m rather than A♭m, D♭ rather than C♯).
+export function transposeChord(chord: ChordData, semitones: number): ChordData | null {
+  // Polychords are spelled from the lower chord, with the upper chord moved by the same letters
+  const anchor = chord.polychord?.lower ?? chord;
+  const parsed = parseChordSymbolStructure(anchor.name);
+  const root = parsed && parseNoteName(parsed.root);
+  if (!parsed || !root) return null;
+
+  // Every letter that can spell the new root with at most a double accidental
+  const letters = LETTERS
+    .map((_, letter) => letter)
+    .filter(letter => parseNoteName(spellNote(letter, mod12(root.pitchClass + semitones)))?.letter === letter);
+
+  let best: ChordData | null = null;
+  letters.forEach((letter) => {
+    const candidate = shiftChord(chord, letter - root.letter, semitones);
+    if (!candidate) return;
+
+    const weight = spellingWeight(candidate);
+    if (!best || weight < spellingWeight(best) || (weight === spellingWeight(best) && candidate.name.length < best.name.length)) {
+      best = candidate;
+    }
+  });
+
+  return best;
+}
+
+// Transpose a chord from one key to another: the interval between the tonics
+// sets the distance and their letters set the spelling, so ♭VII in C (B♭)
+// becomes ♭VII in E (D)
+export function transposeChordToKey(chord: ChordData, fromKey: KeyData, toKey: KeyData): ChordData | null {
+  const from = parseNoteName(fromKey.scale[0]);
+  const to = parseNoteName(toKey.scale[0]);
+  if (!from || !to) return null;
+
+  let semitones = (to.pitchClass - from.pitchClass + 12) % 12;
+  if (semitones > 6) semitones -= 12;
+  return shiftChord(chord, to.letter - from.letter, semitones);
+}
+
+export interface TransformedCollection<T> {
+  items: T[];                                        // One item per resulting chord name, in order
+  merged: { chord: ChordData; into: ChordData }[];  // Chords that landed on a name already in the list
+  skipped: ChordData[];                              // Chords the transform could not handle, kept as they were
+}
+
+// Transform every chord of a collection in order. A chord the transform can't handle
+// keeps its place unchanged; one that lands on a chord already in the collection
+// (C♯7 and D♭7 both transposing to E♭7) is merged into it. Both are reported.
+export function transformCollection<T extends { chord: ChordData }>(
+  items: T[],
+  transform: (chord: ChordData) => ChordData | null
+): TransformedCollection<T> {
+  const result: TransformedCollection<T> = { items: [], merged: [], skipped: [] };
+
+  items.forEach((item) => {
+    const transformed = transform(item.chord);
+    if (!transformed) result.skipped.push(item.chord);
+
+    const chord = transformed ?? item.chord;
+    const existing = result.items.find(other => other.chord.name === chord.name);
+    if (existing) {
+      result.merged.push({ chord: item.chord, into: existing.chord });
+    } else {
+      result.items.push({ ...item, chord });
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,72 @@
+// Upper-structure triads: major triads played over a dominant seventh chord to
+// add tensions, written as polychords (D/C7 = UST II over C7)
+import { ChordData } from './chordDatabase';
+import { buildPolychord, parseChordSymbol, parseChordSymbolStructure } from './chordParser';
+import { notePitchClass, parseNoteName, spellNote } from './spelling';
+
+export interface UpperStructure {
+  numeral: string;       // Triad root relative to the dominant, e.g. "II", "♭VI"
+  polychord: ChordData;  // The triad over the dominant, e.g. "D/C7"
+  tensions: string[];    // Tensions the triad adds, e.g. ["9", "#11", "13"]
+}
+
+// The common upper structures over a dominant: letter steps and semitones from its root
+const UPPER_STRUCTURES: { numeral: string; letterSteps: number; semitones: number }[] = [
+  { numeral: 'II', letterSteps: 1, semitones: 2 },   // 9, #11, 13
+  { numeral: '♭III', letterSteps: 2, semitones: 3 }, // #9, 5, 7
+  { numeral: '♭V', letterSteps: 4, semitones: 6 },   // #11, 7, b9
+  { numeral: '♭VI', letterSteps: 5, semitones: 8 },  // b13, R, #9
+  { numeral: 'VI', letterSteps: 5, semitones: 9 },   // 13, b9, 3
+];
+
+// Tension names by semitones above the root, in the order they are listed
+const TENSIONS: { semitones: number; name: string }[] = [
+  { semitones: 1, name: 'b9' },
+  { semitones: 2, name: '9' },
+  { semitones: 3, name: '#9' },
+  { semitones: 5, name: '11' },
+  { semitones: 6, name: '#11' },
+  { semitones: 8, name: 'b13' },
+  { semitones: 9, name: '13' },
+];
+
+export const ALTERED_TENSIONS = ['b9', '#9', '#11', 'b13'];
+
+// Tensions the upper chord of a polychord adds above the lower chord's root.
+// Notes the lower chord already plays aren't counted.
+export function polychordTensions(chord: ChordData): string[] {
+  if (!chord.polychord) return [];
+  const { upper, lower } = chord.polychord;
+
+  const root = notePitchClass(lower.notes[0]);
+  if (root === null) return [];
+
+  const lowerPitchClasses = new Set(lower.notes.map(note => notePitchClass(note)));
+  const added = new Set(
+    upper.notes
+      .map(note => notePitchClass(note))
+      .filter((pitchClass): pitchClass is number => pitchClass !== null && !lowerPitchClasses.has(pitchClass))
+      .map(pitchClass => (pitchClass - root + 12) % 12)
+  );
+
+  return TENSIONS.filter(tension => added.has(tension.semitones)).map(tension => tension.name);
+}
+
+// Upper-structure triads over a dominant chord (major 3rd and minor 7th, no slash bass)
+export function getUpperStructures(chord: ChordData): UpperStructure[] {
+  const parsed = parseChordSymbolStructure(chord.name);
+  const root = parsed && parseNoteName(parsed.root);
+  if (!parsed || !root || parsed.bass !== null || chord.polychord) return [];
+
+  const hasTone = (degree: number, alteration: number) =>
+    parsed.tones.some(tone => tone.degree === degree && tone.alteration === alteration);
+  if (!hasTone(3, 0) || !hasTone(7, -1)) return [];
+
+  return UPPER_STRUCTURES.flatMap(({ numeral, letterSteps, semitones }) => {
+    const triad = parseChordSymbol(spellNote(root.letter + letterSteps, (root.pitchClass + semitones) % 12));
+    if (!triad) return [];
+
+    const polychord = buildPolychord(triad, chord);
+    return [{ numeral, polychord, tensions: polychordTensions(polychord) }];
+  });
+}
@@ -0,0 +1,149 @@
+// Voice leading: choose an inversion and octave for each chord in a sequence so
+// the voices move as little as possible from one chord to the next
+import { ChordData } from './chordDatabase';
+import { ChordVoicing, calculateVoicings } from './chordVoicings';
+
+export interface VoiceLeadingOptions {
+  keepCommonTones: boolean;        // Notes shared with the previous chord stay on the same key
+  maxTopVoiceLeap: number | null;  // Largest allowed top-voice move in semitones, null = any
+}
+
+export interface VoiceLedChord {
+  chord: ChordData;
+  voicing: ChordVoicing;
+  movingNotes: number[];  // Notes not held over from the previous voicing
+  movement: number;       // Semitones moved from the previous voicing
+}
+
+export const DEFAULT_VOICE_LEADING_OPTIONS: VoiceLeadingOptions = {
+  keepCommonTones: false,
+  maxTopVoiceLeap: null,
+};
+
+// Keyboard range shared with the diagrams: C4 (MIDI 60) to B5 (MIDI 83)
+const KEYBOARD_MIN = 60;
+const KEYBOARD_MAX = 83;
+
+// Cost added when a voicing breaks a constraint; large enough to lose to any
+// voicing that keeps it, but the sequence is still voiced if none can
+const CONSTRAINT_PENALTY = 100;
+
+// Every inversion of a chord in every octave that fits on the keyboard
+function candidateVoicings(chord: ChordData): ChordVoicing[] {
+  const voicings = calculateVoicings(chord);
+  const candidates: ChordVoicing[] = [];
+
+  voicings.forEach((voicing) => {
+    [-24, -12, 0, 12, 24].forEach((shift) => {
+      const notes = voicing.notes.map(note => note + shift);
+      if (Math.min(...notes) >= KEYBOARD_MIN && Math.max(...notes) <= KEYBOARD_MAX) {
+        candidates.push({ ...voicing, notes });
+      }
+    });
+  });
+
+  return candidates.length > 0 ? candidates : voicings;
+}
+
+// Total semitone movement between two voicings. Equal-sized chords move voice by
+// voice from the bottom up; otherwise each note moves to the nearest note of the other chord.
+export function voiceMovement(from: number[], to: number[]): number {
+  const sortedFrom = [...from].sort((a, b) => a - b);
+  const sortedTo = [...to].sort((a, b) => a - b);
+
+  if (sortedFrom.length === sortedTo.length) {
+    return sortedTo.reduce((total, note, index) => total + Math.abs(note - sortedFrom[index]), 0);
+  }
+
+  const [larger, smaller] = sortedFrom.length > sortedTo.length ? [sortedFrom, sortedTo] : [sortedTo, sortedFrom];
+  return larger.reduce(
+    (total, note) => total + Math.min(...smaller.map(other => Math.abs(note - other))),
+    0
+  );
+}
+
+// Movement plus penalties for any constraint the next voicing breaks
+function transitionCost(from: number[], to: number[], options: VoiceLeadingOptions): number {
+  let cost = voiceMovement(from, to);
+
+  if (options.keepCommonTones) {
+    const toPitchClasses = new Set(to.map(note => note % 12));
+    const dropped = from.filter(note => toPitchClasses.has(note % 12) && !to.includes(note));
+    cost += dropped.length * CONSTRAINT_PENALTY;
+  }
+
+  if (options.maxTopVoiceLeap !== null) {
+    const leap = Math.abs(Math.max(...to) - Math.max(...from));
+    if (leap > options.maxTopVoiceLeap) cost += CONSTRAINT_PENALTY;
+  }
+
+  return cost;
+}
+
+// Pick one voicing per chord minimising the total cost over the whole sequence.
+// The first chord prefers root position, then the middle of the keyboard.
+export function voiceLeadSequence(
+  chords: ChordData[],
+  options: VoiceLeadingOptions = DEFAULT_VOICE_LEADING_OPTIONS
+): VoiceLedChord[] {
+  const candidates = chords.map(candidateVoicings);
+  if (candidates.length === 0 || candidates.some(list => list.length === 0)) return [];
+
+  // costs[i][j]: cheapest total cost ending on candidate j of chord i; from[i][j]: its predecessor
+  const costs: number[][] = [];
+  const from: number[][] = [];
+
+  candidates.forEach((list, index) => {
+    if (index === 0) {
+      const middle = (KEYBOARD_MIN + KEYBOARD_MAX) / 2;
+      costs.push(list.map(voicing => {
+        const center = voicing.notes.reduce((sum, note) => sum + note, 0) / voicing.notes.length;
+        return (voicing.name === 'Root' ? 0 : 1) + Math.abs(center - middle) / 12;
+      }));
+      from.push(list.map(() => -1));
+      return;
+    }
+
+    const previous = candidates[index - 1];
+    const rowCosts: number[] = [];
+    const rowFrom: number[] = [];
+
+    list.forEach((voicing) => {
+      let best = Infinity;
+      let bestIndex = 0;
+      previous.forEach((previousVoicing, previousIndex) => {
+        const cost = costs[index - 1][previousIndex] + transitionCost(previousVoicing.notes, voicing.notes, options);
+        if (cost < best) {
+          best = cost;
+          bestIndex = previousIndex;
+        }
+      });
+      rowCosts.push(best);
+      rowFrom.push(bestIndex);
+    });
+
+    costs.push(rowCosts);
+    from.push(rowFrom);
+  });
+
+  // Walk back from the cheapest final voicing
+  const chosen: number[] = [];
+  const lastCosts = costs[costs.length - 1];
+  let current = lastCosts.indexOf(Math.min(...lastCosts));
+  for (let index = candidates.length - 1; index >= 0; index--) {
+    chosen.unshift(current);
+    current = from[index][current];
+  }
+
+  return chosen.map((candidateIndex, index) => {
+    const voicing = candidates[index][candidateIndex];
+    const previous = index > 0 ? candidates[index - 1][chosen[index - 1]].notes : null;
+
+    return {
+      chord: chords[index],
+      voicing,
+      movingNotes: previous ? voicing.notes.filter(note => !previous.includes(note)) : [],
+      movement: previous ? voiceMovement(previous, voicing.notes) : 0,
+    };
+  });
+}
@@ -0,0 +1,279 @@
+// Voicing families beyond close position: drop 2, drop 3, shells, rootless, spread
+// and two-hand voicings
+import { ChordData } from './chordDatabase';
+import { ChordVoicing, Hand, VoicingOptions, calculateVoicings } from './chordVoicings';
+import { ChordTone, parseChordSymbolStructure } from './chordParser';
+import { spellChordTones, toneSemitones } from './spelling';
+
+export type VoicingFamily = 'close' | 'drop2' | 'drop3' | 'shell' | 'rootless' | 'spread' | 'twoHand';
+
+export const VOICING_FAMILIES: { value: VoicingFamily; label: string }[] = [
+  { value: 'close', label: 'Close' },
+  { value: 'drop2', label: 'Drop 2' },
+  { value: 'drop3', label: 'Drop 3' },
+  { value: 'shell', label: 'Shell' },
+  { value: 'rootless', label: 'Rootless' },
+  { value: 'spread', label: 'Spread' },
+  { value: 'twoHand', label: 'Two Hands' },
+];
+
+// A chord tone with its spelling and pitch class
+interface Voice {
+  degree: number;
+  name: string;
+  pitchClass: number;
+}
+
+// Keyboard range the voicings are placed in first: C4 (MIDI 60) to B5 (MIDI 83)
+const KEYBOARD_MIN = 60;
+const KEYBOARD_MAX = 83;
+
+const INVERSION_NAMES = ['Root', '1st Inv', '2nd Inv', '3rd Inv'];
+
+// Two-hand voicings put the left-hand root between F2 (MIDI 41) and E3 (MIDI 52)
+const LEFT_HAND_ROOT_MIN = 41;
+
+// Left- and right-hand degrees for each two-hand voicing, bottom to top
+const TWO_HAND_FORMS: { left: number[]; right: number[]; triadsOnly?: boolean }[] = [
+  { left: [1, 7], right: [3, 13, 9] },
+  { left: [1, 5], right: [3, 7, 9] },
+  { left: [1, 5], right: [3, 5, 1], triadsOnly: true },
+];
+
+// Chord degrees that can stand in for each form degree, in order of preference
+const DEGREE_CHOICES: { [degree: number]: number[] } = {
+  1: [1],
+  3: [3, 2, 4],
+  5: [5],
+  7: [7, 6],
+  9: [9],
+  13: [13, 6, 5],
+};
+
+const degreeLabel = (degree: number) => (degree === 1 ? 'R' : String(degree));
+
+// The chord's tones keyed by scale degree, or null for chords the grammar can't
+// describe (slash chords and hand-built chords such as augmented sixths)
+function chordVoices(chord: ChordData): Voice[] | null {
+  const parsed = parseChordSymbolStructure(chord.name);
+  if (!parsed || parsed.bass !== null) return null;
+
+  const names = spellChordTones(parsed.root, parsed.tones);
+  return parsed.tones.map((tone, index) => ({
+    degree: tone.degree,
+    name: names[index],
+    pitchClass: (parsed.rootPitchClass + toneSemitones(tone)) % 12,
+  }));
+}
+
+function findVoice(voices: Voice[], ...degrees: number[]): Voice | undefined {
+  for (const degree of degrees) {
+    const voice = voices.find(item => item.degree === degree);
+    if (voice) return voice;
+  }
+  return undefined;
+}
+
+// A tone the chord doesn't spell out (e.g. the natural 9 of a rootless voicing)
+function addedVoice(voices: Voice[], tone: ChordTone): Voice {
+  const root = voices[0];
+  const [name] = spellChordTones(root.name, [tone]);
+  return { degree: tone.degree, name, pitchClass: (root.pitchClass + toneSemitones(tone)) % 12 };
+}
+
+// Lowest key at or above a given MIDI note with the given pitch class
+function noteAtOrAbove(pitchClass: number, lowest: number): number {
+  return lowest + ((pitchClass - lowest) % 12 + 12) % 12;
+}
+
+// Stack voices upwards in the given order, each on the first key above the last
+function stack(voices: Voice[], lowest = KEYBOARD_MIN): number[] {
+  const notes: number[] = [];
+  voices.forEach((voice) => {
+    let note = noteAtOrAbove(voice.pitchClass, lowest);
+    if (notes.length > 0) {
+      const previous = notes[notes.length - 1];
+      while (note <= previous) note += 12;
+      while (note - 12 > previous) note -= 12;
+    }
+    notes.push(note);
+  });
+  return notes;
+}
+
+// Move a voicing by octaves onto the keyboard. Voicings wider than the keyboard
+// start in the 4th octave and the diagram grows to fit.
+function placeOnKeyboard(notes: number[]): number[] {
+  const low = Math.min(...notes);
+  const high = Math.max(...notes);
+
+  for (const shift of [0, -12, 12, -24]) {
+    if (low + shift >= KEYBOARD_MIN && high + shift <= KEYBOARD_MAX) {
+      return notes.map(note => note + shift);
+    }
+  }
+
+  const shift = KEYBOARD_MIN + (low % 12) - low;
+  return notes.map(note => note + shift);
+}
+
+function buildVoicing(name: string, voices: Voice[], notes: number[]): ChordVoicing {
+  const placed = placeOnKeyboard(notes);
+  const order = placed.map((_, index) => index).sort((a, b) => placed[a] - placed[b]);
+  return {
+    name,
+    notes: order.map(index => placed[index]),
+    noteNames: order.map(index => voices[index].name),
+  };
+}
+
+// Drop 2 / drop 3: take each close-position inversion of the four-note core
+// (1-3-5-7, or a triad) and lower the 2nd or 3rd voice from the top an octave.
+// A chord without a fifth uses its 13th (or 6th, 9th, 11th) in its place, so altered
+// and no-5th chords keep a full core. Each voicing is named after the core tone in
+// the bass (the fifth or its stand-in gives the 2nd inversion) and listed in that order.
+function dropVoicings(voices: Voice[], drop: 2 | 3): ChordVoicing[] {
+  const roles = [voices[0], findVoice(voices, 3, 2, 4), findVoice(voices, 5, 13, 6, 9, 11), findVoice(voices, 7, 6)];
+  const core = roles.filter((voice, index): voice is Voice => voice !== undefined && roles.indexOf(voice) === index);
+  if (core.length < drop + 1) return [];
+
+  // Close position stacks the core tones in pitch order above the root
+  const root = voices[0].pitchClass;
+  const closeOrder = [...core].sort((a, b) => (a.pitchClass - root + 12) % 12 - (b.pitchClass - root + 12) % 12);
+
+  const voicings = closeOrder.map((_, inversion) => {
+    const rotated = closeOrder.slice(inversion).concat(closeOrder.slice(0, inversion));
+    const notes = stack(rotated);
+    notes[notes.length - drop] -= 12;
+
+    const bass = notes.indexOf(Math.min(...notes));
+    const bassInversion = roles.indexOf(rotated[bass]);
+    return { bassInversion, voicing: buildVoicing(`Drop ${drop} – ${INVERSION_NAMES[bassInversion]}`, rotated, notes) };
+  });
+
+  return voicings
+    .sort((a, b) => a.bassInversion - b.bassInversion)
+    .map(({ voicing }) => voicing);
+}
+
+// 3-7 shells: the root with the third and seventh (or sixth) above it, either way up
+function shellVoicings(voices: Voice[]): ChordVoicing[] {
+  const third = findVoice(voices, 3, 2, 4);
+  const seventh = findVoice(voices, 7, 6);
+  if (!third || !seventh) return [];
+
+  return [
+    buildVoicing('Shell – R-3-7', [voices[0], third, seventh], stack([voices[0], third, seventh])),
+    buildVoicing('Shell – R-7-3', [voices[0], seventh, third], stack([voices[0], seventh, third])),
+  ];
+}
+
+// Bill Evans rootless voicings: A = 3-5-7-9, B = 7-9-3-5. A 13th (or 6th) takes
+// the place of the fifth, and a natural 9 is added if the chord doesn't have one.
+function rootlessVoicings(voices: Voice[]): ChordVoicing[] {
+  const third = findVoice(voices, 3);
+  const seventh = findVoice(voices, 7);
+  const fifth = findVoice(voices, 13, 6, 5);
+  if (!third || !seventh || !fifth) return [];
+
+  const ninth = findVoice(voices, 9) ?? addedVoice(voices, { degree: 9, alteration: 0 });
+  const formA = [third, fifth, seventh, ninth];
+  const formB = [seventh, ninth, third, fifth];
+
+  return [
+    buildVoicing('Rootless A', formA, stack(formA)),
+    buildVoicing('Rootless B', formB, stack(formB)),
+  ];
+}
+
+// Open spread voicings with the root alone in the bass: R-5-3-7 and R-7-3-5
+// (R-5-3 for triads), with any extensions stacked above
+function spreadVoicings(voices: Voice[]): ChordVoicing[] {
+  const root = voices[0];
+  const third = findVoice(voices, 3, 2, 4);
+  const fifth = findVoice(voices, 5);
+  const seventh = findVoice(voices, 7, 6);
+  if (!third || !fifth) return [];
+
+  const extensions = voices.filter(voice => voice.degree > 7);
+  const forms: { name: string; order: Voice[] }[] = seventh
+    ? [
+      { name: 'Spread – R-5-3-7', order: [root, fifth, third, seventh] },
+      { name: 'Spread – R-7-3-5', order: [root, seventh, third, fifth] },
+    ]
+    : [{ name: 'Spread – R-5-3', order: [root, fifth, third] }];
+
+  return forms.map(({ name, order }) => {
+    const voicesWithExtensions = [...order, ...extensions];
+    return buildVoicing(name, voicesWithExtensions, stack(voicesWithExtensions));
+  });
+}
+
+// Two-hand voicings: a left-hand root with its 7th or 5th, and a right-hand
+// upper structure starting at or above middle C (e.g. R-7 / 3-5-9). Forms whose
+// degrees the chord doesn't have are skipped; a natural 9 is added if needed.
+function twoHandVoicings(voices: Voice[]): ChordVoicing[] {
+  const resolve = (degree: number): Voice | undefined => {
+    const voice = findVoice(voices, ...DEGREE_CHOICES[degree]);
+    return voice ?? (degree === 9 ? addedVoice(voices, { degree: 9, alteration: 0 }) : undefined);
+  };
+
+  const voicings: ChordVoicing[] = [];
+  const seen = new Set<string>();
+
+  const hasSeventh = resolve(7) !== undefined;
+
+  TWO_HAND_FORMS.forEach(({ left, right, triadsOnly }) => {
+    if (triadsOnly && hasSeventh) return;
+
+    const leftVoices = left.map(resolve);
+    const rightVoices = right.map(resolve);
+    if ([...leftVoices, ...rightVoices].some(voice => voice === undefined)) return;
+
+    const leftHand = leftVoices as Voice[];
+    const rightHand = rightVoices as Voice[];
+    const name = `Two Hands – ${leftHand.map(voice => degreeLabel(voice.degree)).join('-')} / ${rightHand.map(voice => degreeLabel(voice.degree)).join('-')}`;
+    if (seen.has(name)) return;
+    seen.add(name);
+
+    const leftNotes = stack(leftHand, LEFT_HAND_ROOT_MIN);
+    const rightNotes = stack(rightHand, Math.max(KEYBOARD_MIN, leftNotes[leftNotes.length - 1] + 1));
+
+    voicings.push({
+      name,
+      notes: [...leftNotes, ...rightNotes],
+      noteNames: [...leftHand, ...rightHand].map(voice => voice.name),
+      hands: [...leftNotes.map((): Hand => 'left'), ...rightNotes.map((): Hand => 'right')],
+    });
+  });
+
+  return voicings;
+}
+
+// All voicings of a chord in one family. Close position is calculateVoicings;
+// the other families return an empty list for chords they don't apply to.
+export function calculateFamilyVoicings(
+  chord: ChordData,
+  family: VoicingFamily,
+  options: VoicingOptions = {}
+): ChordVoicing[] {
+  if (family === 'close') return calculateVoicings(chord, options);
+
+  const voices = chordVoices(chord);
+  if (!voices || voices.length < 3) return [];
+
+  switch (family) {
+    case 'drop2':
+      return dropVoicings(voices, 2);
+    case 'drop3':
+      return dropVoicings(voices, 3);
+    case 'shell':
+      return shellVoicings(voices);
+    case 'rootless':
+      return rootlessVoicings(voices);
+    case 'spread':
+      return spreadVoicings(voices);
+    case 'twoHand':
+      return twoHandVoicings(voices);
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { CHORD_CHART, KeyData } from '../data/chordData';
+import { buildCadence, generateCadence, getCadenceKeys, getCadencePattern } from '../data/cadences';
+
+function findKey(name: string, type: KeyData['type']): KeyData {
+  const key = CHORD_CHART.find(k => k.name === name && k.type === type);
+  if (!key) throw new Error(`Missing key ${name} ${type}`);
+  return key;
+}
+
+const names = (patternId: string, key: KeyData) =>
+  buildCadence(getCadencePattern(patternId), key).map(step => step.chord.name);
+
+describe('Cadences', () => {
+  it('should build ii–V–I in major and minor keys', () => {
+    expect(names('ii-v-i', findKey('C', 'Major'))).toEqual(['Dm7', 'G7', 'Cmaj7']);
+    expect(names('ii-v-i', findKey('Cm', 'Minor'))).toEqual(['Dm7b5', 'G7', 'Cm7']);
+    expect(names('ii-v-i', findKey('B♭', 'Major'))).toEqual(['Cm7', 'F7', 'Bbmaj7']);
+  });
+
+  it('should build the classical cadences', () => {
+    const cMajor = findKey('C', 'Major');
+    expect(names('authentic', cMajor)).toEqual(['F', 'G7', 'C']);
+    expect(names('plagal', cMajor)).toEqual(['C', 'F', 'C']);
+    expect(names('half', cMajor)).toEqual(['C', 'Dm', 'G']);
+    expect(names('deceptive', cMajor)).toEqual(['C', 'G7', 'Am']);
+    expect(names('deceptive', findKey('Am', 'Minor'))).toEqual(['Am', 'E7', 'F']);
+  });
+
+  it('should label each chord with its Roman numeral', () => {
+    const numerals = buildCadence(getCadencePattern('ii-v-i'), findKey('Am', 'Minor')).map(step => step.numeral);
+    expect(numerals[0]).toBe('iiø7');
+    expect(numerals[1]).toBe('V7');
+  });
+
+  it('should list all twelve keys in descending fifths', () => {
+    const major = getCadenceKeys('major').map(key => key.name);
+    expect(major).toHaveLength(12);
+    expect(major.slice(0, 4)).toEqual(['C', 'F', 'B♭', 'E♭']);
+    const minor = getCadenceKeys('minor').map(key => key.name);
+    expect(new Set(minor).size).toBe(12);
+    expect(minor.slice(0, 3)).toEqual(['Cm', 'Fm', 'B♭m']);
+  });
+
+  it('should voice-lead every step within the keyboard', () => {
+    getCadenceKeys('major').forEach((key) => {
+      const { steps, voicings } = generateCadence(getCadencePattern('ii-v-i'), key);
+      expect(voicings).toHaveLength(steps.length);
+      voicings.forEach(({ voicing }) => {
+        expect(Math.min(...voicing.notes)).toBeGreaterThanOrEqual(60);
+        expect(Math.max(...voicing.notes)).toBeLessThanOrEqual(83);
+      });
+      // Guide tones move by step, so the whole ii–V–I stays close together
+      const movement = voicings.reduce((total, step) => total + step.movement, 0);
+      expect(movement).toBeLessThanOrEqual(8);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { formatChordCsvError, parseChordCsv } from '../data/chordCsv';
+import { loadChordDatabaseErrors } from '../data/chordDatabase';
+import { readCsv } from '../data/csv';
+
+const HEADER = 'chord_name,notes,chord_type,chord_extension';
+
+describe('CSV reader', () => {
+  it('should read quoted fields with commas and escaped quotes', () => {
+    const { records, errors } = readCsv('a,"b, c","say ""hi"""\n');
+    expect(errors).toEqual([]);
+    expect(records).toEqual([{ line: 1, fields: ['a', 'b, c', 'say "hi"'] }]);
+  });
+
+  it('should handle CRLF line endings and line breaks inside quotes', () => {
+    const { records } = readCsv('a,b\r\n"multi\r\nline",c\r\nd,e');
+    expect(records.map(record => record.fields)).toEqual([['a', 'b'], ['multi\r\nline', 'c'], ['d', 'e']]);
+    expect(records.map(record => record.line)).toEqual([1, 2, 4]);
+  });
+
+  it('should skip comments and blank lines', () => {
+    const { records } = readCsv('# generated file, "do not edit"\n\na,b\n  # trailing note\n');
+    expect(records).toEqual([{ line: 3, fields: ['a', 'b'] }]);
+  });
+
+  it('should keep empty fields and report an unterminated quote', () => {
+    expect(readCsv('a,,""\n').records[0].fields).toEqual(['a', '', '']);
+    expect(readCsv('a,"b\n').errors).toEqual([{ line: 1, message: 'Unterminated quoted field' }]);
+  });
+});
+
+describe('Chord CSV validation', () => {
+  it('should accept valid rows and ignore extra columns and column order', () => {
+    const { rows, errors } = parseChordCsv(
+      'notes,chord_name,chord_extension,chord_type,comment\r\n"C, E, G",C,Major Triad,Major,simple\r\n"D, F, A, C",Dm7,Minor 7th,Minor,\r\n'
+    );
+    expect(errors).toEqual([]);
+    expect(rows.map(row => [row.line, row.name, row.notes, row.quality.id])).toEqual([
+      [2, 'C', ['C', 'E', 'G'], 'major'],
+      [3, 'Dm7', ['D', 'F', 'A', 'C'], 'minor-7'],
+    ]);
+  });
+
+  it('should report each problem with its line and column', () => {
+    const { rows, errors } = parseChordCsv([
+      HEADER,
+      'C,"C, E, G",Major,Major Triad',
+      'Cm,"C, E, G",Minor,Minor Triad',
+      'D,"D, F#, H",Major,Major Triad',
+      'C,"C, E, G",Major,Major Triad',
+      'Cxyz,"C, E",Major,',
+    ].join('\n'));
+
+    expect(rows.map(row => row.name)).toEqual(['C']);
+    expect(errors).toEqual([
+      { line: 3, name: 'Cm', column: 'notes', message: 'C, E, G do not match Minor Triad (C, E♭, G)' },
+      { line: 4, name: 'D', column: 'notes', message: 'Unknown note name H' },
+      { line: 5, name: 'C', column: 'chord_name', message: 'Duplicate of line 2' },
+      { line: 6, name: 'Cxyz', column: 'chord_extension', message: 'Empty field' },
+      { line: 6, name: 'Cxyz', column: 'chord_name', message: 'Not a recognised chord symbol' },
+    ]);
+    expect(formatChordCsvError(errors[2])).toBe('Line 5 (C): chord_name: Duplicate of line 2');
+  });
+
+  it('should report type and extension columns that do not match the chord', () => {
+    const { rows, errors } = parseChordCsv(`${HEADER}\nCm,"C, Eb, G",Major,Dominant 13th\n`);
+    expect(rows).toEqual([]);
+    expect(errors).toEqual([
+      { line: 2, name: 'Cm', column: 'chord_type', message: 'Major does not match Cm (Minor)' },
+      { line: 2, name: 'Cm', column: 'chord_extension', message: 'Dominant 13th does not match Cm (Minor Triad)' },
+    ]);
+  });
+
+  it('should report rows with the wrong number of fields', () => {
+    const { rows, errors } = parseChordCsv(`${HEADER}\nD,"D, F#, A",Major,Major Triad,extra\nE,"E, G#, B",Major\n`);
+    expect(rows).toEqual([]);
+    expect(errors).toEqual([
+      { line: 2, name: 'D', message: 'Expected 4 fields, found 5' },
+      { line: 3, name: 'E', message: 'Expected 4 fields, found 3' },
+      { line: 3, name: 'E', column: 'chord_extension', message: 'Empty field' },
+    ]);
+  });
+
+  it('should report a header without the required columns', () => {
+    const { rows, errors } = parseChordCsv('name,notes\nC,"C, E, G"\n');
+    expect(rows).toEqual([]);
+    expect(errors.map(error => error.column)).toEqual(['chord_name', 'chord_type', 'chord_extension']);
+    expect(parseChordCsv('').errors).toEqual([{ line: 0, message: 'File is empty' }]);
+  });
+
+  it('should load src/data/chords.csv without errors', () => {
+    expect(loadChordDatabaseErrors()).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CHORD_CHART,
+  HARMONIC_LAYERS,
+  KeyData,
+  getChordVoicings,
+  getDiatonicChords,
+} from '../data/chordData';
+
+function findKey(name: string, type: KeyData['type']): KeyData {
+  const key = CHORD_CHART.find(k => k.name === name && k.type === type);
+  if (!key) throw new Error(`Missing key ${name} ${type}`);
+  return key;
+}
+
+const chordNames = (key: KeyData, layer: Parameters<typeof getDiatonicChords>[1]) =>
+  getDiatonicChords(key, layer).map(item => item.chord);
+
+describe('Diatonic Chords', () => {
+  const cMajor = findKey('C', 'Major');
+  const aMinor = findKey('Am', 'Minor');
+
+  it('should derive the chart triads from the scale in every key', () => {
+    CHORD_CHART.forEach((key) => {
+      const triads = chordNames(key, 'triads');
+      expect(triads).toEqual(key.chords);
+    });
+  });
+
+  it('should generate the major and natural minor keys of the original chart', () => {
+    expect(CHORD_CHART.filter(k => k.type === 'Major').map(k => k.name)).toEqual(
+      ['C', 'D♭', 'D', 'E♭', 'E', 'F', 'G♭', 'G', 'A♭', 'A', 'B♭', 'B']
+    );
+    expect(CHORD_CHART.filter(k => k.type === 'Minor').map(k => k.name)).toEqual(
+      ['Am', 'B♭m', 'Bm', 'Cm', 'C♯m', 'Dm', 'D♯m', 'Em', 'Fm', 'F♯m', 'Gm', 'G♯m']
+    );
+    expect(cMajor.chords).toEqual(['C', 'Dm', 'Em', 'F', 'G', 'Am', 'B°']);
+    expect(findKey('D♯m', 'Minor').chords).toEqual(['D♯m', 'E♯°', 'F♯', 'G♯m', 'A♯m', 'B', 'C♯']);
+  });
+
+  it('should spell every degree of a scale on its own letter', () => {
+    expect(findKey('G♭', 'Major').scale).toEqual(['G♭', 'A♭', 'B♭', 'C♭', 'D♭', 'E♭', 'F']);
+    expect(findKey('G♭', 'Major').chords[3]).toBe('C♭');
+    CHORD_CHART.forEach((key) => {
+      const letters = key.scale.map(note => note[0]);
+      expect(new Set(letters).size).toBe(7);
+    });
+  });
+
+  it('should offer every mode and minor variant on twelve tonics', () => {
+    const types = new Set(CHORD_CHART.map(k => k.type));
+    expect(types.size).toBe(21);
+    types.forEach((type) => {
+      expect(CHORD_CHART.filter(k => k.type === type).length).toBe(12);
+    });
+  });
+
+  it('should give harmonic minor a major V chord', () => {
+    const aHarmonic = findKey('A', 'Harmonic Minor');
+    expect(aHarmonic.chords).toEqual(['Am', 'B°', 'C+', 'Dm', 'E', 'F', 'G♯°']);
+    expect(chordNames(aHarmonic, 'sevenths')).toEqual(
+      ['Am(maj7)', 'Bm7♭5', 'Cmaj7♯5', 'Dm7', 'E7', 'Fmaj7', 'G♯°7']
+    );
+  });
+
+  it('should build modal chords from the mode scale', () => {
+    expect(findKey('D', 'Dorian').chords).toEqual(['Dm', 'Em', 'F', 'G', 'Am', 'B°', 'C']);
+    expect(findKey('F', 'Lydian').chords).toEqual(['F', 'G', 'Am', 'B°', 'C', 'Dm', 'Em']);
+    expect(findKey('G', 'Mixolydian').scale).toEqual(['G', 'A', 'B', 'C', 'D', 'E', 'F']);
+  });
+
+  it('should build diatonic seventh chords', () => {
+    expect(chordNames(cMajor, 'sevenths')).toEqual(
+      ['Cmaj7', 'Dm7', 'Em7', 'Fmaj7', 'G7', 'Am7', 'Bm7♭5']
+    );
+    expect(chordNames(aMinor, 'sevenths')).toEqual(
+      ['Am7', 'Bm7♭5', 'Cmaj7', 'Dm7', 'Em7', 'Fmaj7', 'G7']
+    );
+  });
+
+  it('should build diatonic ninth chords with altered ninths where the scale has them', () => {
+    expect(chordNames(cMajor, 'ninths')).toEqual(
+      ['Cmaj9', 'Dm9', 'Em7♭9', 'Fmaj9', 'G9', 'Am9', 'Bm7♭5♭9']
+    );
+  });
+
+  it('should only list standard sus, add9 and sixth chords', () => {
+    expect(chordNames(cMajor, 'sus2')).toEqual(['Csus2', 'Dsus2', 'Fsus2', 'Gsus2', 'Asus2']);
+    expect(chordNames(cMajor, 'sus4')).toEqual(['Csus4', 'Dsus4', 'Esus4', 'Gsus4', 'Asus4']);
+    expect(chordNames(cMajor, 'add9')).toEqual(['Cadd9', 'Dm(add9)', 'Fadd9', 'Gadd9', 'Am(add9)']);
+    expect(chordNames(cMajor, 'sixths')).toEqual(['C6', 'Dm6', 'F6', 'G6']);
+  });
+
+  it('should keep the scale degree of every chord', () => {
+    const degrees = getDiatonicChords(cMajor, 'sus4').map(item => item.degree);
+    expect(degrees).toEqual([0, 1, 2, 4, 5]);
+  });
+
+  it('should produce voicings for every chord of every layer', () => {
+    CHORD_CHART.forEach((key) => {
+      HARMONIC_LAYERS.forEach(({ value }) => {
+        getDiatonicChords(key, value).forEach(({ chord }) => {
+          const voicings = getChordVoicings(chord);
+          expect(voicings.length, `no voicings for ${chord}`).toBeGreaterThan(0);
+          voicings.forEach(voicing => {
+            expect(voicing.noteNames.length).toBe(voicing.notes.length);
+          });
+        });
+      });
+    });
+  });
+
+  it('should voice a G7 with its spelled notes', () => {
+    const voicings = getChordVoicings('G7');
+    expect(voicings[0].notes).toEqual([67, 71, 74, 77]);
+    expect(voicings[0].noteNames).toEqual(['G', 'B', 'D', 'F']);
+    expect(voicings.map(v => v.name)).toEqual(['Root', '1st Inv', '2nd Inv', '3rd Inv']);
+  });
+});
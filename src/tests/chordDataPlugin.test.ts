@@ -0,0 +1,46 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { compileChordData, qualityExportName } from '../../plugins/chordData';
+import * as chordModule from '../data/chords.csv';
+import { CHORDS, CHORD_DATA_ERRORS } from '../data/chords.csv';
+import { CHORD_QUALITIES, getChordQuality } from '../data/chordQualities';
+
+const CSV = 'chord_name,notes,chord_type,chord_extension\nC,"C, E, G",Major,Major Triad\n';
+const INVALID_CSV = `${CSV}Cm,"C, E, G",Minor,Minor Triad\n`;
+
+describe('Chord data plugin', () => {
+  it('should emit chords with MIDI notes, inversions and registry qualities', () => {
+    const code = compileChordData(CSV, true);
+    expect(code).toContain('"name":"C","notes":["C","E","G"],"midiNotes":[60,64,67]');
+    expect(code).toContain('"name":"1st Inv"');
+    expect(code).toContain('const quality0 = /* @__PURE__ */ getChordQuality("major");');
+    expect(code).toContain('"quality": quality0 }');
+    expect(code).toContain('export const MAJOR_CHORDS = [chord0];');
+    expect(code).toContain('export const CHORDS = [chord0];');
+    expect(code).toContain('export const CHORD_DATA_ERRORS = [];');
+  });
+
+  it('should fail a build on invalid rows and export them otherwise', () => {
+    expect(() => compileChordData(INVALID_CSV, true)).toThrow('Line 3 (Cm): notes: C, E, G do not match Minor Triad');
+    expect(compileChordData(INVALID_CSV, false)).toContain('"line":3,"name":"Cm","column":"notes"');
+  });
+
+  it('should compile src/data/chords.csv on import', () => {
+    expect(CHORD_DATA_ERRORS).toEqual([]);
+    const c = CHORDS.find(chord => chord.name === 'C');
+    expect(c?.quality).toBe(getChordQuality('major'));
+    expect(c?.voicings?.map(voicing => voicing.notes)).toEqual([[60, 64, 67], [64, 67, 72], [67, 72, 76]]);
+  });
+
+  it('should export the chords of each registered quality under a declared name', () => {
+    const exports = chordModule as Record<string, unknown>;
+    const declarations = fs.readFileSync(path.resolve(__dirname, '../data/chords.csv.d.ts'), 'utf8');
+    CHORD_QUALITIES.forEach((quality) => {
+      const name = qualityExportName(quality.id);
+      expect(exports[name]).toEqual(CHORDS.filter(chord => chord.quality === quality));
+      expect(declarations).toContain(`export declare const ${name}: ChordData[];`);
+    });
+    expect(qualityExportName('dominant-7-sharp-11')).toBe('DOMINANT_7_SHARP_11_CHORDS');
+  });
+});
@@ -0,0 +1,12 @@
+import { ChordData } from '../data/chordDatabase';
+import { parseChordSymbol } from '../data/chordParser';
+
+// Chords for tests, from their symbols. A symbol that doesn't parse throws here, at
+// the typo, instead of surfacing later as a property read on undefined.
+export function chord(symbol: string): ChordData {
+  const parsed = parseChordSymbol(symbol);
+  if (!parsed) throw new Error(`Not a chord symbol: ${symbol}`);
+  return parsed;
+}
+
+export const chords = (...symbols: string[]): ChordData[] => symbols.map(chord);
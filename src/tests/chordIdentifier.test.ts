@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { identifyChord, inversionLabel } from '../data/chordIdentifier';
+
+describe('Chord Identification', () => {
+  it('should identify a root position C major triad first', () => {
+    const matches = identifyChord([60, 64, 67]);
+    expect(matches[0].name).toBe('C');
+    expect(inversionLabel(matches[0])).toBe('Root');
+  });
+
+  it('should name inversions as slash chords', () => {
+    const matches = identifyChord([64, 67, 72]);
+    expect(matches[0].name).toBe('C/E');
+    expect(matches[0].inversion).toBe(1);
+  });
+
+  it('should list every chord sharing the same pitch classes', () => {
+    const matches = identifyChord([57, 60, 64, 67]);
+    const names = matches.map(match => match.name);
+    expect(names[0]).toBe('Am7');
+    expect(names).toContain('C6/A');
+  });
+
+  it('should treat a non-chord-tone bass as an added slash bass', () => {
+    const matches = identifyChord([55, 57, 60, 64]);
+    const names = matches.map(match => match.name);
+    expect(names[0]).toBe('Am/G');
+    expect(names).toContain('Am7/G');
+    expect(matches[0].inversion).toBe(-1);
+  });
+
+  it('should include enharmonic spellings from the database', () => {
+    const matches = identifyChord([61, 65, 68]);
+    const names = matches.map(match => match.name);
+    expect(names).toContain('C#');
+    expect(names).toContain('Db');
+  });
+
+  it('should return nothing for fewer than two notes', () => {
+    expect(identifyChord([60])).toEqual([]);
+  });
+});
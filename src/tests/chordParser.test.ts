@@ -0,0 +1,204 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { loadChordDatabase, searchChords, ChordData } from '../data/chordDatabase';
+import { chordRootName, parseChordSymbol } from '../data/chordParser';
+import { readCsv } from '../data/csv';
+import { notePitchClass } from '../data/spelling';
+
+// The original public/chords.csv, kept as parser fixtures
+const LEGACY_ROWS = readCsv(fs.readFileSync(path.resolve(__dirname, 'fixtures/legacyChords.csv'), 'utf8'))
+  .records.slice(1)
+  .map(({ fields: [name, notes] }) => ({ name, notes: notes.split(',').map(note => note.trim()) }));
+
+// Legacy rows spelled by pitch alone (Cm as C D# G), by chord suffix and root. The
+// parser spells them by letter (C Eb G), so only their pitch classes must agree.
+const LEGACY_RESPELLINGS: { [suffix: string]: string[] } = {
+  '': ['A#', 'C#', 'D#', 'G#'],
+  '6': ['A#', 'C#', 'D#', 'G#'],
+  '7': ['A#', 'C#', 'C', 'D#', 'Db', 'F', 'G#', 'Gb'],
+  '9': ['A#', 'C#', 'C', 'D#', 'Db', 'F', 'G#', 'Gb'],
+  '11': ['A#', 'C#', 'C', 'D#', 'Db', 'F', 'G#', 'Gb'],
+  '7sus4': ['A#', 'C', 'Db', 'F', 'Gb'],
+  'maj7': ['A#', 'C#', 'D#', 'F#', 'G#'],
+  'maj9': ['A#', 'C#', 'D#', 'F#', 'G#'],
+  'maj11': ['A#', 'C#', 'D#', 'F#', 'F', 'G#', 'Gb'],
+  'm': ['A#', 'Ab', 'C', 'Db', 'F', 'Gb', 'G'],
+  'm6': ['A#', 'Ab', 'C', 'D#', 'Db', 'F', 'G#', 'Gb', 'G'],
+  'm7': ['A#', 'Ab', 'C', 'Db', 'F', 'Gb', 'G'],
+  'm9': ['A#', 'Ab', 'C', 'D#', 'Db', 'F', 'Gb', 'G'],
+  'm11': ['A#', 'Ab', 'C', 'D#', 'Db', 'F', 'Gb', 'G'],
+  'm(maj7)': ['A#', 'Ab', 'C#', 'C', 'D#', 'Db', 'F#', 'F', 'G#', 'Gb', 'G'],
+  'm7b5': ['Ab', 'A', 'Bb', 'C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G'],
+  'dim': ['Ab', 'A', 'Bb', 'C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G'],
+  'dim7': ['Ab', 'A', 'Bb', 'B', 'C#', 'C', 'Db', 'D', 'Eb', 'E', 'F#', 'F', 'Gb', 'G'],
+  'aug': ['A#', 'A', 'B', 'Bb', 'C#', 'D#', 'E', 'F#', 'G#'],
+  'aug7': ['A#', 'A', 'B', 'Bb', 'C#', 'C', 'D#', 'Db', 'E', 'F#', 'F', 'G#', 'Gb'],
+  'sus2': ['A#', 'D#'],
+  'sus4': ['A#', 'F', 'Gb'],
+};
+
+describe('Chord Symbol Parser', () => {
+  let csvChords: ChordData[] = [];
+
+  beforeAll(() => {
+    csvChords = loadChordDatabase();
+  });
+
+  describe('CSV fixtures', () => {
+    it('should parse every legacy row to its notes', () => {
+      expect(LEGACY_ROWS.length).toBe(374);
+
+      LEGACY_ROWS.forEach((row) => {
+        const parsed = parseChordSymbol(row.name);
+        expect(parsed?.name, `failed to parse ${row.name}`).toBe(row.name);
+
+        const root = chordRootName(parsed!)!;
+        if (LEGACY_RESPELLINGS[row.name.slice(root.length)]?.includes(root)) {
+          expect(parsed!.notes, `${row.name} is listed as respelled`).not.toEqual(row.notes);
+          expect(parsed!.notes.map(notePitchClass), row.name).toEqual(row.notes.map(notePitchClass));
+        } else {
+          expect(parsed!.notes, row.name).toEqual(row.notes);
+        }
+      });
+    });
+
+    const row = (name: string) => csvChords.find(chord => chord.name === name);
+    const voicingNotes = (name: string) => row(name)?.voicings?.map(voicing => voicing.notes);
+
+    it('should load known rows with their spelling, MIDI notes and quality', () => {
+      expect(row('C')).toMatchObject({ notes: ['C', 'E', 'G'], midiNotes: [60, 64, 67], quality: { id: 'major' } });
+      expect(row('Bbm7')).toMatchObject({ notes: ['Bb', 'Db', 'F', 'Ab'], midiNotes: [70, 73, 77, 80], quality: { id: 'minor-7' } });
+      expect(row('Ebdim7')).toMatchObject({ notes: ['Eb', 'Gb', 'Bbb', 'Dbb'], midiNotes: [63, 66, 69, 72] });
+      expect(row('F#7#9')).toMatchObject({ notes: ['F#', 'A#', 'C#', 'E', 'G##'], midiNotes: [66, 70, 73, 76, 81] });
+    });
+
+    it('should load known rows with their inversions', () => {
+      expect(voicingNotes('C')).toEqual([[60, 64, 67], [64, 67, 72], [67, 72, 76]]);
+      expect(voicingNotes('Bbm7')).toEqual([[70, 73, 77, 80], [73, 77, 80, 82], [65, 68, 70, 73], [68, 70, 73, 77]]);
+      expect(voicingNotes('Ebdim7')).toEqual([[63, 66, 69, 72], [66, 69, 72, 75], [69, 72, 75, 78], [72, 75, 78, 81]]);
+    });
+  });
+
+  describe('Extended and altered chords', () => {
+    it('should build Cmaj7#11', () => {
+      const chord = parseChordSymbol('Cmaj7#11');
+      expect(chord?.notes).toEqual(['C', 'E', 'G', 'B', 'F#']);
+      expect(chord?.midiNotes).toEqual([60, 64, 67, 71, 78]);
+      expect(chord?.quality.family).toBe('major');
+    });
+
+    it('should build F7b9b13', () => {
+      const chord = parseChordSymbol('F7b9b13');
+      expect(chord?.notes).toEqual(['F', 'A', 'C', 'Eb', 'Gb', 'Db']);
+      expect(chord?.midiNotes).toEqual([65, 69, 72, 75, 78, 85]);
+      expect(chord?.quality.family).toBe('dominant');
+    });
+
+    it('should build G13sus4 without an 11th', () => {
+      const chord = parseChordSymbol('G13sus4');
+      expect(chord?.notes).toEqual(['G', 'C', 'D', 'F', 'A', 'E']);
+      expect(chord?.quality.name).toBe('Dominant 13th Sus4');
+    });
+
+    it('should accept unicode accidentals and alternative quality symbols', () => {
+      expect(parseChordSymbol('B♭Δ7')?.notes).toEqual(['Bb', 'D', 'F', 'A']);
+      expect(parseChordSymbol('C-7')?.notes).toEqual(parseChordSymbol('Cm7')?.notes);
+      expect(parseChordSymbol('Cø7')?.midiNotes).toEqual(parseChordSymbol('Cm7b5')?.midiNotes);
+      expect(parseChordSymbol('C°7')?.midiNotes).toEqual(parseChordSymbol('Cdim7')?.midiNotes);
+      expect(parseChordSymbol('C+')?.midiNotes).toEqual(parseChordSymbol('Caug')?.midiNotes);
+    });
+
+    it('should handle added tones, sixth-nines and omissions', () => {
+      expect(parseChordSymbol('Cadd9')?.midiNotes).toEqual([60, 64, 67, 74]);
+      expect(parseChordSymbol('C6/9')?.midiNotes).toEqual([60, 64, 67, 69, 74]);
+      expect(parseChordSymbol('C7no5')?.midiNotes).toEqual([60, 64, 70]);
+      expect(parseChordSymbol('C5')?.midiNotes).toEqual([60, 67]);
+    });
+
+    it('should spell roots that are not in the CSV', () => {
+      const chord = parseChordSymbol('Cbmaj7');
+      expect(chord?.notes[0]).toBe('Cb');
+      expect(chord?.midiNotes[0]).toBe(71);
+    });
+  });
+
+  describe('Slash chords', () => {
+    it('should put a chord-tone bass at the bottom', () => {
+      const chord = parseChordSymbol('C/E');
+      expect(chord?.notes).toEqual(['E', 'C', 'G']);
+      expect(chord?.midiNotes).toEqual([64, 72, 79]);
+    });
+
+    it('should add a non-chord-tone bass below the chord', () => {
+      const chord = parseChordSymbol('Am/G');
+      expect(chord?.notes).toEqual(['G', 'A', 'C', 'E']);
+      expect(chord?.midiNotes).toEqual([67, 69, 72, 76]);
+    });
+
+    it('should build Bbm11/Eb', () => {
+      const chord = parseChordSymbol('Bbm11/Eb');
+      expect(chord?.notes).toEqual(['Eb', 'Bb', 'Db', 'F', 'Ab', 'C']);
+      expect(chord?.midiNotes[0]).toBe(63);
+    });
+
+    it('should record the bass only for slash chords', () => {
+      expect(parseChordSymbol('D/F#')?.bass).toBe('F#');
+      expect(parseChordSymbol('D')?.bass).toBeUndefined();
+    });
+  });
+
+  describe('Invalid symbols', () => {
+    it('should reject text that is not a chord', () => {
+      ['', 'H7', 'Cxyz', 'C7/9/E', 'Cm5', 'maj7'].forEach((symbol) => {
+        expect(parseChordSymbol(symbol)).toBeNull();
+      });
+    });
+
+    it('should reject two different alterations of the fifth', () => {
+      ['C7b5#5', 'C7#5b5', 'Cm7b5+', 'Cdim#5'].forEach((symbol) => {
+        expect(parseChordSymbol(symbol)).toBeNull();
+      });
+      expect(parseChordSymbol('Caug7#5')?.notes).toEqual(['C', 'E', 'G#', 'Bb']);
+    });
+  });
+
+  describe('Search integration', () => {
+    it('should return parsed chords that are not in the CSV', () => {
+      const results = searchChords('Cmaj7#11');
+      expect(results[0].name).toBe('Cmaj7#11');
+    });
+
+    it('should prefer CSV rows over parsed duplicates', () => {
+      const results = searchChords('Cmaj7');
+      expect(results.filter(chord => chord.name === 'Cmaj7').length).toBe(1);
+    });
+
+    it('should find CSV rows by an alias of their symbol', () => {
+      [
+        ['C-7', 'Cm7'], ['Cmin7', 'Cm7'], ['Cmi7', 'Cm7'], ['CΔ7', 'Cmaj7'], ['Cø7', 'Cm7b5'],
+        ['C°7', 'Cdim7'], ['C+', 'Caug'], ['CmM7', 'Cm(maj7)'], ['Calt', 'C7alt'], ['BbM7', 'Bbmaj7'],
+      ].forEach(([alias, name]) => {
+        expect(searchChords(alias)[0]?.name).toBe(name);
+      });
+    });
+
+    it('should tell CM7 from Cm7', () => {
+      expect(searchChords('CM7')[0].name).toBe('Cmaj7');
+      expect(searchChords('Cm7')[0].name).toBe('Cm7');
+    });
+
+    it('should offer slash chords over each chord tone', () => {
+      const results = searchChords('Am7/');
+      ['Am7/C', 'Am7/E', 'Am7/G'].forEach((name) => {
+        expect(results.some(chord => chord.name === name)).toBe(true);
+      });
+    });
+
+    it('should find slash chords with a non-chord-tone bass', () => {
+      const results = searchChords('F/G');
+      expect(results[0].name).toBe('F/G');
+      expect(results[0].bass).toBe('G');
+    });
+  });
+});
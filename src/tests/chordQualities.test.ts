@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { loadChordDatabase } from '../data/chordDatabase';
+import { parseChordSymbol, parsePolychord } from '../data/chordParser';
+import { CHORD_QUALITIES, getChordQuality } from '../data/chordQualities';
+
+describe('Chord qualities', () => {
+  // Augmented sixths are named by function rather than written as chord symbols
+  const symbolQualities = CHORD_QUALITIES.filter(quality => quality.family !== 'augmented-sixth');
+
+  it('should parse every canonical symbol and alias to its quality', () => {
+    symbolQualities.forEach((quality) => {
+      [quality.symbol, ...quality.aliases].forEach((suffix) => {
+        const chord = parseChordSymbol(`C${suffix}`);
+        expect(chord?.quality.id, `C${suffix}`).toBe(quality.id);
+        expect(chord?.name, `C${suffix}`).toBe(`C${quality.symbol}`);
+      });
+    });
+  });
+
+  it('should give every chord-symbol quality unique intervals', () => {
+    const keys = symbolQualities.map(quality => quality.intervals.join(' '));
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('should register the quality of every chord in the database', () => {
+    const chords = loadChordDatabase();
+    expect(chords.length).toBeGreaterThan(0);
+    chords.forEach((chord) => {
+      expect(chord.quality.registered, chord.name).toBe(true);
+    });
+  });
+
+  it('should list intervals and tensions', () => {
+    const dominant = getChordQuality('dominant-7');
+    expect(dominant.intervals).toEqual([0, 4, 7, 10]);
+    expect(dominant.family).toBe('dominant');
+    expect(dominant.tensions).toContain('b9');
+    expect(getChordQuality('diminished-7').intervals).toEqual([0, 3, 6, 9]);
+  });
+
+  it('should derive a quality for chords the registry does not list', () => {
+    const quality = parseChordSymbol('Cmaj7#9')?.quality;
+    expect(quality?.registered).toBe(false);
+    expect(quality?.family).toBe('major');
+    expect(quality?.name).toBe('Major 7th (#9)');
+    expect(quality?.intervals).toEqual([0, 4, 7, 11, 15]);
+    expect(quality?.tensions).toEqual(['9', '#11', '13']);
+    expect(quality?.difficulty).toBe(4);
+  });
+
+  it('should rank difficulty from triads to altered chords', () => {
+    const difficulty = (symbol: string) => parseChordSymbol(symbol)?.quality.difficulty ?? 0;
+    expect(difficulty('C')).toBeLessThan(difficulty('Cmaj7'));
+    expect(difficulty('Cmaj7')).toBeLessThan(difficulty('C13'));
+    expect(difficulty('C13')).toBeLessThan(difficulty('C7alt'));
+  });
+
+  it('should describe polychords by their layers', () => {
+    const quality = parsePolychord('D/C7')?.quality;
+    expect(quality?.family).toBe('polychord');
+    expect(quality?.name).toBe('D over C7');
+    expect(quality?.intervals).toEqual([0, 4, 7, 10, 14, 18, 21]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { CHORD_CHART, KeyData } from '../data/chordData';
+import { getChordScales } from '../data/chordScales';
+import { chord } from './chordFixtures';
+
+const scaleNames = (symbol: string, key?: KeyData) => getChordScales(chord(symbol), key).map(scale => scale.name);
+
+function findKey(name: string, type: KeyData['type']): KeyData {
+  const key = CHORD_CHART.find(k => k.name === name && k.type === type);
+  if (!key) throw new Error(`Missing key ${name} ${type}`);
+  return key;
+}
+
+describe('Chord–scale compatibility', () => {
+  it('should offer the usual dominant scales for a 7 chord', () => {
+    const names = scaleNames('C7');
+    expect(names[0]).toBe('Mixolydian');
+    ['Lydian Dominant', 'Altered', 'Half-Whole Diminished'].forEach((name) => {
+      expect(names).toContain(name);
+    });
+  });
+
+  it('should only list scales that hold every chord tone', () => {
+    expect(scaleNames('Cmaj7')).not.toContain('Mixolydian');
+    expect(scaleNames('C7b9')).not.toContain('Mixolydian');
+    expect(scaleNames('C7b9')[0]).toBe('Half-Whole Diminished');
+    expect(scaleNames('Cdim7')[0]).toBe('Whole-Half Diminished');
+  });
+
+  it('should spell scales from the chord root', () => {
+    const scales = getChordScales(chord('C7'));
+    expect(scales.find(scale => scale.name === 'Altered')?.notes).toEqual(['C', 'D♭', 'E♭', 'F♭', 'G♭', 'A♭', 'B♭']);
+    expect(scales.find(scale => scale.name === 'Half-Whole Diminished')?.notes).toEqual(['C', 'D♭', 'E♭', 'E', 'F♯', 'G', 'A', 'B♭']);
+  });
+
+  it('should mark avoid notes but not dominant tensions', () => {
+    const scales = getChordScales(chord('C7'));
+    expect(scales.find(scale => scale.name === 'Mixolydian')?.avoidNotes).toEqual(['F']);
+    expect(scales.find(scale => scale.name === 'Altered')?.avoidNotes).toEqual([]);
+    expect(getChordScales(chord('Cmaj7')).find(scale => scale.name === 'Major')?.avoidNotes).toEqual(['F']);
+  });
+
+  it('should prefer the scale of the key context', () => {
+    const cMajor = findKey('C', 'Major');
+    expect(scaleNames('Em7')[0]).toBe('Dorian');
+    expect(scaleNames('Em7', cMajor)[0]).toBe('Phrygian');
+    expect(scaleNames('Bm7b5', cMajor)[0]).toBe('Locrian');
+    expect(getChordScales(chord('Dm7'), cMajor)[0].inKey).toBe(true);
+  });
+
+  it('should root slash chords on the chord rather than the bass', () => {
+    expect(getChordScales(chord('C/E'))[0].notes[0]).toBe('C');
+  });
+});
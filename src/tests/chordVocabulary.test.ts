@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { ChordData, loadChordDatabase } from '../data/chordDatabase';
+import { parseChordSymbol } from '../data/chordParser';
+import { CHORD_QUALITIES } from '../data/chordQualities';
+import { CHORD_ROOTS, chordVocabularyCsv, generateChordVocabulary } from '../data/chordVocabulary';
+import { LETTERS, parseNoteName } from '../data/spelling';
+
+describe('Chord vocabulary', () => {
+  const rows = generateChordVocabulary();
+  let database: ChordData[] = [];
+
+  beforeAll(() => {
+    database = loadChordDatabase();
+  });
+
+  it('should build every quality except augmented sixths on every root', () => {
+    const qualities = CHORD_QUALITIES.filter(quality => quality.family !== 'augmented-sixth');
+    expect(rows.length).toBe(CHORD_ROOTS.length * qualities.length);
+    expect(rows.some(row => row.type === 'Augmented Sixth')).toBe(false);
+  });
+
+  it('should describe each row by its quality', () => {
+    expect(rows.find(row => row.name === 'Ebm7b5')).toEqual({
+      name: 'Ebm7b5', notes: ['Eb', 'Gb', 'Bbb', 'Db'], type: 'Diminished', extension: 'Half Diminished 7th',
+    });
+    expect(rows.find(row => row.name === 'F#13')).toEqual({
+      name: 'F#13', notes: ['F#', 'A#', 'C#', 'E', 'G#', 'D#'], type: 'Dominant', extension: 'Dominant 13th',
+    });
+  });
+
+  it('should write rows in the chords.csv layout', () => {
+    expect(chordVocabularyCsv(rows.slice(0, 2))).toBe(
+      'chord_name,notes,chord_type,chord_extension\nC,"C, E, G",Major,Major Triad\nCm,"C, Eb, G",Minor,Minor Triad\n'
+    );
+  });
+
+  it('should load every generated chord', () => {
+    expect(database.length).toBe(rows.length);
+    expect(database.length).toBeGreaterThan(800);
+    expect(new Set(database.map(chord => chord.name)).size).toBe(database.length);
+  });
+
+  it('should cover the extended qualities on every root', () => {
+    ['13', 'add9', 'add11', '6/9', '7b9', '7#9', '7#11', '7b5', '7alt', 'maj7#5', 'madd9', '9sus4', 'dim(maj7)'].forEach((symbol) => {
+      CHORD_ROOTS.forEach((root) => {
+        expect(database.some(chord => chord.name === `${root}${symbol}`), `${root}${symbol}`).toBe(true);
+      });
+    });
+  });
+
+  it('should spell each tone on the letter of its degree', () => {
+    rows.forEach((row) => {
+      const chord = parseChordSymbol(row.name);
+      const root = parseNoteName(row.notes[0]);
+      chord?.quality.tones.forEach((tone, index) => {
+        const letter = parseNoteName(row.notes[index])?.letter;
+        expect(LETTERS[letter ?? -1], `${row.name} ${row.notes[index]}`).toBe(LETTERS[((root?.letter ?? 0) + tone.degree - 1) % 7]);
+      });
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { CHORD_CHART, KeyData } from '../data/chordData';
+import { getChromaticChords } from '../data/chromaticChords';
+
+function findKey(name: string, type: KeyData['type']): KeyData {
+  const key = CHORD_CHART.find(k => k.name === name && k.type === type);
+  if (!key) throw new Error(`Missing key ${name} ${type}`);
+  return key;
+}
+
+const byLabel = (key: KeyData, layer: Parameters<typeof getChromaticChords>[1]) =>
+  new Map(getChromaticChords(key, layer).map(item => [item.label, item]));
+
+describe('Chromatic Chords', () => {
+  const cMajor = findKey('C', 'Major');
+
+  it('should build secondary dominants and leading-tone chords', () => {
+    const triads = byLabel(cMajor, 'triads');
+    expect(triads.get('V/V')?.chord).toBe('D');
+    expect(triads.get('vii°/V')?.chord).toBe('F♯°');
+    expect(triads.has('V/IV')).toBe(false); // C is already the tonic chord
+
+    const sevenths = byLabel(cMajor, 'sevenths');
+    expect(sevenths.get('V7/ii')?.chordData.notes).toEqual(['A', 'C#', 'E', 'G']);
+    expect(sevenths.get('V7/IV')?.chord).toBe('C7');
+    expect(sevenths.get('vii°7/vi')?.chordData.notes).toEqual(['G#', 'B', 'D', 'F']);
+  });
+
+  it('should borrow chords from the parallel key', () => {
+    const borrowed = getChromaticChords(cMajor, 'triads').filter(item => item.category === 'interchange');
+    expect(borrowed.map(item => item.label)).toEqual(['i', 'ii°', '♭III', 'iv', 'v', '♭VI', '♭VII']);
+    expect(borrowed.find(item => item.label === '♭VI')?.chord).toBe('A♭');
+
+    const aMinor = byLabel(findKey('Am', 'Minor'), 'sevenths');
+    expect(aMinor.get('V7')?.chord).toBe('E7');
+    expect(aMinor.get('IVmaj7')?.chord).toBe('Dmaj7');
+  });
+
+  it('should add the Neapolitan unless it is already diatonic', () => {
+    const neapolitan = byLabel(cMajor, 'triads').get('N6');
+    expect(neapolitan?.chord).toBe('D♭/F');
+    expect(neapolitan?.chordData.notes).toEqual(['F', 'Db', 'Ab']);
+    expect(neapolitan?.chordData.midiNotes).toEqual([65, 73, 80]);
+    expect(byLabel(findKey('E', 'Phrygian'), 'triads').has('N6')).toBe(false);
+  });
+
+  it('should spell augmented sixths with a raised fourth', () => {
+    const chords = byLabel(cMajor, 'triads');
+    expect(chords.get('It+6')?.chordData.notes).toEqual(['Ab', 'C', 'F#']);
+    expect(chords.get('Fr+6')?.chordData.notes).toEqual(['Ab', 'C', 'D', 'F#']);
+    expect(chords.get('Ger+6')?.chordData.notes).toEqual(['Ab', 'C', 'Eb', 'F#']);
+    expect(chords.get('Ger+6')?.chordData.midiNotes).toEqual([68, 72, 75, 78]);
+    expect(byLabel(findKey('Am', 'Minor'), 'triads').get('Ger+6')?.chordData.notes).toEqual(['F', 'A', 'C', 'D#']);
+  });
+
+  it('should keep ids stable across layers', () => {
+    const triadIds = getChromaticChords(cMajor, 'triads').map(item => item.id);
+    const seventhIds = getChromaticChords(cMajor, 'sevenths').map(item => item.id);
+    expect(seventhIds).toEqual(expect.arrayContaining(triadIds));
+  });
+
+  it('should never repeat a chord or duplicate a diatonic chip in any key', () => {
+    CHORD_CHART.forEach((key) => {
+      const chords = getChromaticChords(key, 'sevenths');
+      const symbols = chords.filter(item => item.category !== 'augmented-sixth').map(item => item.chord);
+      expect(new Set(symbols).size).toBe(symbols.length);
+      symbols.forEach(symbol => expect(key.chords).not.toContain(symbol));
+    });
+  });
+});
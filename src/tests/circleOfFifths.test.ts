@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { CHORD_CHART, KeyData } from '../data/chordData';
+import { getCircleHighlights, getCircleOfFifths } from '../data/circleOfFifths';
+
+function findKey(name: string, type: KeyData['type']): KeyData {
+  const key = CHORD_CHART.find(k => k.name === name && k.type === type);
+  if (!key) throw new Error(`Missing key ${name} ${type}`);
+  return key;
+}
+
+// Highlighted triads as "ring:position:chord"
+const highlights = (key: KeyData) =>
+  getCircleHighlights(key).map(({ ring, position, chord }) => `${ring}:${position}:${chord}`).sort();
+
+describe('Circle of fifths', () => {
+  const circle = getCircleOfFifths();
+
+  it('should order major keys by fifths from C', () => {
+    expect(circle.map(segment => segment.major.name))
+      .toEqual(['C', 'G', 'D', 'A', 'E', 'B', 'G♭', 'D♭', 'A♭', 'E♭', 'B♭', 'F']);
+  });
+
+  it('should pair each major key with its relative minor and leading-tone triad', () => {
+    expect(circle.map(segment => segment.minor.name))
+      .toEqual(['Am', 'Em', 'Bm', 'F♯m', 'C♯m', 'G♯m', 'D♯m', 'B♭m', 'Fm', 'Cm', 'Gm', 'Dm']);
+    expect(circle[0].diminished).toBe('B°');
+    expect(circle[11].diminished).toBe('E°');
+  });
+
+  it('should place the diatonic triads of a key in three neighbouring segments', () => {
+    expect(highlights(findKey('C', 'Major'))).toEqual([
+      'diminished:0:B°', 'major:0:C', 'major:11:F', 'major:1:G', 'minor:0:Am', 'minor:11:Dm', 'minor:1:Em',
+    ]);
+    expect(highlights(findKey('Am', 'Minor'))).toEqual(highlights(findKey('C', 'Major')));
+    expect(highlights(findKey('D', 'Dorian'))).toEqual(highlights(findKey('C', 'Major')));
+  });
+
+  it('should read the highlighted triads as Roman numerals in the key', () => {
+    const numerals = getCircleHighlights(findKey('G', 'Major')).map(({ chord, numeral }) => `${chord} ${numeral}`);
+    expect(numerals).toContain('D V');
+    expect(numerals).toContain('F♯° vii°');
+  });
+});
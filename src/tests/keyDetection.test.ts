@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { detectKeys } from '../data/keyDetection';
+import { chords } from './chordFixtures';
+
+const topKey = (...symbols: string[]) => {
+  const [best] = detectKeys(chords(...symbols));
+  return `${best.key.name} ${best.key.type}`;
+};
+
+describe('Key Detection', () => {
+  it('should return nothing for an empty collection', () => {
+    expect(detectKeys([])).toEqual([]);
+  });
+
+  it('should rank every key in the chart', () => {
+    expect(detectKeys(chords('C')).length).toBeGreaterThan(200);
+  });
+
+  it('should find major and minor keys from common progressions', () => {
+    expect(topKey('C', 'F', 'G7', 'C')).toBe('C Major');
+    expect(topKey('C', 'Am', 'F', 'G')).toBe('C Major');
+    expect(topKey('Am', 'Dm', 'E7', 'Am')).toBe('Am Minor');
+    expect(topKey('Eb', 'Ab', 'Bb7')).toBe('E♭ Major');
+    expect(topKey('F#m', 'Bm', 'C#7')).toBe('F♯m Minor');
+  });
+
+  it('should prefer a mode when the progression centres on it', () => {
+    expect(topKey('Dm7', 'G7', 'Dm7')).toBe('D Dorian');
+    expect(topKey('G', 'F', 'C', 'G')).toBe('G Mixolydian');
+  });
+
+  it('should read each chord as a Roman numeral in the candidate key', () => {
+    const [best] = detectKeys(chords('Dm7', 'G7', 'Cmaj7', 'A7'));
+    expect(best.key.name).toBe('C');
+    expect(best.readings.map(reading => reading.numeral)).toEqual(['ii7', 'V7', 'Imaj7', 'VI7']);
+    expect(best.readings.map(reading => reading.diatonic)).toEqual([true, true, true, false]);
+    expect(best.fit).toBeCloseTo(15 / 16);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { CHORD_CHART, KeyData } from '../data/chordData';
+import { getNegativeChord, mirrorChord, mirrorNote } from '../data/negativeHarmony';
+import { chord } from './chordFixtures';
+
+function findKey(name: string, type: KeyData['type']): KeyData {
+  const key = CHORD_CHART.find(k => k.name === name && k.type === type);
+  if (!key) throw new Error(`Missing key ${name} ${type}`);
+  return key;
+}
+
+describe('Negative harmony', () => {
+  const cMajor = findKey('C', 'Major');
+
+  it('should reflect notes around the tonic–dominant axis', () => {
+    expect(['C', 'D', 'E', 'F', 'G', 'A', 'B'].map(note => mirrorNote(note, cMajor)))
+      .toEqual(['G', 'F', 'Eb', 'D', 'C', 'Bb', 'Ab']);
+    expect(mirrorNote('G', findKey('E♭', 'Major'))).toBe('Gb');
+  });
+
+  it('should keep the mirrored voicing near the original register', () => {
+    expect(mirrorChord(chord('C'), cMajor)).toEqual({ notes: ['C', 'Eb', 'G'], midiNotes: [60, 63, 67] });
+    expect(mirrorChord(chord('G7'), cMajor)?.midiNotes).toEqual([62, 65, 68, 72]);
+  });
+
+  it('should be its own inverse', () => {
+    const mirrored = mirrorChord(chord('Dm7'), cMajor);
+    const restored = mirrorChord({ ...chord('Dm7'), ...mirrored }, cMajor);
+    expect(restored?.notes).toEqual(chord('Dm7').notes);
+  });
+
+  it('should name the mirrored chord from the database', () => {
+    expect((getNegativeChord(chord('G7'), cMajor))?.name).toBe('Dm7b5');
+    expect((getNegativeChord(chord('C'), cMajor))?.name).toBe('Cm');
+    expect((getNegativeChord(chord('F'), cMajor))?.name).toBe('Gm');
+    expect((getNegativeChord(chord('Bb'), findKey('E♭', 'Major')))?.name).toBe('Abm');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { chainTransforms, isTransformableTriad, transformTriad } from '../data/neoRiemannian';
+import { chord } from './chordFixtures';
+
+const result = (symbol: string, transform: string) => transformTriad(chord(symbol), transform)?.chord.name;
+
+describe('Neo-Riemannian transformations', () => {
+  it('should apply P, L and R to major and minor triads', () => {
+    expect(['P', 'L', 'R'].map(transform => result('C', transform))).toEqual(['Cm', 'Em', 'Am']);
+    expect(['P', 'L', 'R'].map(transform => result('Cm', transform))).toEqual(['C', 'Ab', 'Eb']);
+    expect(result('F#', 'L')).toBe('A#m');
+  });
+
+  it('should undo P, L and R when applied twice', () => {
+    ['P', 'L', 'R'].forEach((transform) => {
+      const steps = chainTransforms(chord('Eb'), [transform, transform]);
+      expect(steps[1].chord.name).toBe('Eb');
+    });
+  });
+
+  it('should apply the compound transforms', () => {
+    expect(result('C', 'N')).toBe('Fm');
+    expect(result('C', 'S')).toBe('C#m');
+    expect(result('C', 'H')).toBe('G#m');
+  });
+
+  it('should move a single voice and keep the common tones in place', () => {
+    const step = transformTriad(chord('C'), 'L');
+    expect(step?.notes).toEqual([59, 64, 67]);
+    expect(step?.noteNames).toEqual(['B', 'E', 'G']);
+    expect(step?.movingNotes).toEqual([59]);
+    expect(transformTriad(chord('C'), 'R')?.movingNotes).toEqual([69]);
+  });
+
+  it('should chain transforms and stay in the middle register', () => {
+    const steps = chainTransforms(chord('C'), ['R', 'L', 'R', 'L', 'R', 'L', 'R', 'L']);
+    expect(steps.map(step => step.chord.name)).toEqual(['Am', 'F', 'Dm', 'Bb', 'Gm', 'Eb', 'Cm', 'Ab']);
+    steps.forEach((step) => {
+      expect(step.movingNotes).toHaveLength(1);
+      expect(Math.min(...step.notes)).toBeGreaterThanOrEqual(48);
+      expect(Math.max(...step.notes)).toBeLessThanOrEqual(90);
+    });
+  });
+
+  it('should only transform plain major and minor triads', () => {
+    expect(isTransformableTriad(chord('Am'))).toBe(true);
+    expect(isTransformableTriad(chord('C7'))).toBe(false);
+    expect(isTransformableTriad(chord('C/E'))).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { CHORD_CHART, KeyData } from '../data/chordData';
+import { noteLabel } from '../data/noteLabels';
+
+function findKey(name: string, type: KeyData['type']): KeyData {
+  const key = CHORD_CHART.find(k => k.name === name && k.type === type);
+  if (!key) throw new Error(`Missing key ${name} ${type}`);
+  return key;
+}
+
+// Labels for a voicing given as [spelling, MIDI] pairs
+const labels = (notes: [string, number][], mode: Parameters<typeof noteLabel>[2], context = {}) =>
+  notes.map(([name, midi]) => noteLabel(name, midi, mode, context));
+
+describe('Note labels', () => {
+  const cm9: [string, number][] = [['C', 60], ['Eb', 63], ['G', 67], ['Bb', 70], ['D', 74]];
+
+  it('should print note names with accidental glyphs', () => {
+    expect(labels(cm9, 'name')).toEqual(['C', 'E♭', 'G', 'B♭', 'D']);
+  });
+
+  it('should print intervals from the root, with compound tensions', () => {
+    expect(labels(cm9, 'interval', { root: 'C', rootMidi: 60 })).toEqual(['R', '♭3', '5', '♭7', '9']);
+    expect(noteLabel('D', 62, 'interval', { root: 'C', rootMidi: 60 })).toBe('2');
+    expect(noteLabel('F#', 78, 'interval', { root: 'C', rootMidi: 60 })).toBe('♯11');
+    expect(noteLabel('Bbb', 69, 'interval', { root: 'C', rootMidi: 60 })).toBe('♭♭7');
+  });
+
+  it('should print scale degrees in the key', () => {
+    const cMajor = findKey('C', 'Major');
+    expect(labels(cm9, 'degree', { key: cMajor })).toEqual(['1', '♭3', '5', '♭7', '2']);
+    expect(noteLabel('F#', 66, 'degree', { key: cMajor })).toBe('♯4');
+    expect(noteLabel('C', 60, 'degree', { key: findKey('Am', 'Minor') })).toBe('3');
+  });
+
+  it('should print MIDI numbers and octave names', () => {
+    expect(labels(cm9, 'midi')).toEqual(['60', '63', '67', '70', '74']);
+    expect(labels(cm9, 'octave')).toEqual(['C4', 'E♭4', 'G4', 'B♭4', 'D5']);
+    expect(noteLabel('B#', 60, 'octave')).toBe('B♯3');
+    expect(noteLabel('Cb', 59, 'octave')).toBe('C♭4');
+  });
+
+  it('should print movable-do solfège in a key and fixed do without one', () => {
+    expect(labels(cm9, 'solfege', { key: findKey('C', 'Major') })).toEqual(['do', 'me', 'sol', 'te', 're']);
+    expect(noteLabel('F#', 66, 'solfege', { key: findKey('C', 'Major') })).toBe('fi');
+    expect(noteLabel('F#', 66, 'solfege')).toBe('Fa♯');
+  });
+
+  it('should fall back to the note name without a root or key', () => {
+    expect(noteLabel('Eb', 63, 'interval')).toBe('E♭');
+    expect(noteLabel('Eb', 63, 'degree')).toBe('E♭');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { analyzePitchClassSet, findSetClassChords, normalForm, pitchClassKey, primeForm } from '../data/pitchClassSets';
+import { chord } from './chordFixtures';
+
+describe('Pitch-class set analysis', () => {
+  it('should analyse a major triad', () => {
+    expect(analyzePitchClassSet(chord('G').midiNotes)).toEqual({
+      pitchClasses: [2, 7, 11],
+      normalForm: [7, 11, 2],
+      primeForm: [0, 3, 7],
+      forteNumber: '3-11',
+      intervalVector: [0, 0, 1, 1, 1, 0],
+    });
+  });
+
+  it('should give major and minor triads the same prime form', () => {
+    expect(primeForm([0, 3, 7])).toEqual(primeForm([0, 4, 7]));
+    expect(analyzePitchClassSet(chord('Dm').midiNotes).forteNumber).toBe('3-11');
+  });
+
+  it('should choose the most compact normal form', () => {
+    expect(normalForm([2, 5, 7, 11])).toEqual([11, 2, 5, 7]);
+    expect(normalForm([0, 4, 8])).toEqual([0, 4, 8]);
+  });
+
+  it('should pack prime forms to the left', () => {
+    expect(pitchClassKey(primeForm([0, 1, 5, 6, 8]))).toBe('01568');
+    expect(pitchClassKey(primeForm([0, 2, 4, 6, 8, 10]))).toBe('02468T');
+  });
+
+  it('should name seventh chords and Z-related sets', () => {
+    expect(analyzePitchClassSet(chord('C7').midiNotes).forteNumber).toBe('4-27');
+    expect(analyzePitchClassSet(chord('Cm7b5').midiNotes).forteNumber).toBe('4-27');
+    expect(analyzePitchClassSet(chord('Cmaj7').midiNotes).forteNumber).toBe('4-20');
+    expect(analyzePitchClassSet([0, 1, 4, 6]).forteNumber).toBe('4-Z15');
+    expect(analyzePitchClassSet([0, 1, 3, 7]).intervalVector).toEqual([1, 1, 1, 1, 1, 1]);
+  });
+
+  it('should number large sets after their complements', () => {
+    expect(analyzePitchClassSet([0, 2, 4, 5, 7, 9, 11]).forteNumber).toBe('7-35');
+    expect(analyzePitchClassSet([0, 1, 3, 4, 6, 7, 9, 10]).forteNumber).toBe('8-28');
+    expect(analyzePitchClassSet([0, 4]).forteNumber).toBe('2-4');
+    expect(analyzePitchClassSet([0]).forteNumber).toBeNull();
+  });
+
+  it('should find database chords in the same set class', () => {
+    const names = (findSetClassChords(chord('C7'))).map(c => c.name);
+    expect(names).toContain('D7');
+    expect(names).toContain('Bm7b5');
+    expect(names).not.toContain('C7');
+    expect(names).not.toContain('Cmaj7');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { CHORD_CHART, KeyData, getDiatonicChords } from '../data/chordData';
+import { getRomanNumeral } from '../data/romanNumerals';
+
+function findKey(name: string, type: KeyData['type']): KeyData {
+  const key = CHORD_CHART.find(k => k.name === name && k.type === type);
+  if (!key) throw new Error(`Missing key ${name} ${type}`);
+  return key;
+}
+
+const numerals = (key: KeyData, layer: Parameters<typeof getDiatonicChords>[1]) =>
+  getDiatonicChords(key, layer).map(({ chord }) => getRomanNumeral(key, chord)?.numeral);
+
+describe('Roman Numerals', () => {
+  const cMajor = findKey('C', 'Major');
+
+  it('should label major-key triads with case and quality symbols', () => {
+    expect(numerals(cMajor, 'triads')).toEqual(['I', 'ii', 'iii', 'IV', 'V', 'vi', 'vii°']);
+  });
+
+  it('should keep working for extended chords', () => {
+    expect(numerals(cMajor, 'sevenths')).toEqual(
+      ['Imaj7', 'ii7', 'iii7', 'IVmaj7', 'V7', 'vi7', 'viiø7']
+    );
+    expect(numerals(cMajor, 'ninths')).toEqual(
+      ['Imaj9', 'ii9', 'iii7♭9', 'IVmaj9', 'V9', 'vi9', 'viiø7♭9']
+    );
+    expect(numerals(cMajor, 'sus4')).toEqual(['Isus4', 'IIsus4', 'IIIsus4', 'Vsus4', 'VIsus4']);
+  });
+
+  it('should mark degrees that differ from the major scale', () => {
+    expect(numerals(findKey('Am', 'Minor'), 'triads')).toEqual(
+      ['i', 'ii°', '♭III', 'iv', 'v', '♭VI', '♭VII']
+    );
+    expect(numerals(findKey('A', 'Harmonic Minor'), 'sevenths')).toEqual(
+      ['i(maj7)', 'iiø7', '♭III+maj7', 'iv7', 'V7', '♭VImaj7', 'vii°7']
+    );
+  });
+
+  it('should assign tonic, subdominant and dominant functions', () => {
+    const functions = cMajor.chords.map(chord => getRomanNumeral(cMajor, chord)?.function);
+    expect(functions).toEqual(
+      ['tonic', 'subdominant', 'tonic', 'subdominant', 'dominant', 'tonic', 'dominant']
+    );
+  });
+
+  it('should analyse chromatic chords by letter distance', () => {
+    expect(getRomanNumeral(cMajor, 'B♭')?.numeral).toBe('♭VII');
+    expect(getRomanNumeral(cMajor, 'D♭')?.numeral).toBe('♭II');
+    expect(getRomanNumeral(cMajor, 'Fm')?.numeral).toBe('iv');
+  });
+});
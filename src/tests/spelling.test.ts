@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatNoteName,
+  parseNoteName,
+  spellChordTones,
+  spellPitchClass,
+  spellScale,
+} from '../data/spelling';
+import { parseChordSymbol } from '../data/chordParser';
+
+describe('Spelling Engine', () => {
+  describe('parseNoteName', () => {
+    it('should parse single and double accidentals in ASCII and unicode', () => {
+      expect(parseNoteName('E#')?.pitchClass).toBe(5);
+      expect(parseNoteName('Cb')?.pitchClass).toBe(11);
+      expect(parseNoteName('Fb')?.pitchClass).toBe(4);
+      expect(parseNoteName('B♯')?.pitchClass).toBe(0);
+      expect(parseNoteName('F𝄪')?.name).toBe('F##');
+      expect(parseNoteName('B𝄫')?.pitchClass).toBe(9);
+      expect(parseNoteName('D')?.accidental).toBe(0);
+    });
+
+    it('should reject names that are not notes', () => {
+      expect(parseNoteName('H')).toBeNull();
+      expect(parseNoteName('C###')).toBeNull();
+    });
+  });
+
+  describe('formatNoteName', () => {
+    it('should display accidental glyphs', () => {
+      expect(formatNoteName('Bb')).toBe('B♭');
+      expect(formatNoteName('E#')).toBe('E♯');
+      expect(formatNoteName('F##')).toBe('F𝄪');
+      expect(formatNoteName('Ebb')).toBe('E𝄫');
+      expect(formatNoteName('B')).toBe('B');
+    });
+  });
+
+  describe('Chord spelling', () => {
+    it('should spell chord tones on their own letters', () => {
+      expect(parseChordSymbol('Caug7')?.notes).toEqual(['C', 'E', 'G#', 'Bb']);
+      expect(parseChordSymbol('Cdim7')?.notes).toEqual(['C', 'Eb', 'Gb', 'Bbb']);
+      expect(parseChordSymbol('D#aug')?.notes).toEqual(['D#', 'F##', 'A##']);
+      expect(parseChordSymbol('Abm')?.notes).toEqual(['Ab', 'Cb', 'Eb']);
+    });
+
+    it('should spell extensions and alterations from the formula', () => {
+      const tones = [
+        { degree: 1, alteration: 0 },
+        { degree: 3, alteration: 0 },
+        { degree: 7, alteration: -1 },
+        { degree: 9, alteration: 1 },
+        { degree: 13, alteration: -1 },
+      ];
+      expect(spellChordTones('E', tones)).toEqual(['E', 'G#', 'D', 'F##', 'C']);
+    });
+  });
+
+  describe('Scale spelling', () => {
+    it('should give every degree its own letter', () => {
+      expect(spellScale('Gb', [0, 2, 4, 5, 7, 9, 11])).toEqual(['Gb', 'Ab', 'Bb', 'Cb', 'Db', 'Eb', 'F']);
+      expect(spellScale('C#', [0, 2, 4, 5, 7, 9, 11])).toEqual(['C#', 'D#', 'E#', 'F#', 'G#', 'A#', 'B#']);
+    });
+  });
+
+  describe('Key-aware pitch-class spelling', () => {
+    const fMajor = { scale: ['F', 'G', 'A', 'Bb', 'C', 'D', 'E'] };
+    const eMajor = { scale: ['E', 'F#', 'G#', 'A', 'B', 'C#', 'D#'] };
+
+    it('should use the key spelling for diatonic notes', () => {
+      expect(spellPitchClass(10, fMajor)).toBe('Bb');
+      expect(spellPitchClass(8, eMajor)).toBe('G#');
+    });
+
+    it('should follow the key signature for chromatic notes', () => {
+      expect(spellPitchClass(8, fMajor)).toBe('Ab');
+      expect(spellPitchClass(10, eMajor)).toBe('A#');
+    });
+
+    it('should fall back to a neutral default without a key', () => {
+      expect(spellPitchClass(10)).toBe('Bb');
+      expect(spellPitchClass(6)).toBe('F#');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { CHORD_CHART, KeyData } from '../data/chordData';
+import { transformCollection, transposeChord, transposeChordToKey } from '../data/transpose';
+import { chord } from './chordFixtures';
+
+function findKey(name: string, type: KeyData['type']): KeyData {
+  const key = CHORD_CHART.find(k => k.name === name && k.type === type);
+  if (!key) throw new Error(`Missing key ${name} ${type}`);
+  return key;
+}
+
+describe('Transposition', () => {
+  describe('By semitones', () => {
+    it('should keep quality and extensions', () => {
+      const result = transposeChord(chord('Cmaj7#11'), 2);
+      expect(result?.name).toBe('Dmaj7#11');
+      expect(result?.notes).toEqual(['D', 'F#', 'A', 'C#', 'G#']);
+      expect(result?.quality.family).toBe('major');
+    });
+
+    it('should spell the root with the fewest accidentals', () => {
+      expect(transposeChord(chord('Am'), -1)?.name).toBe('G#m');
+      expect(transposeChord(chord('C'), 1)?.name).toBe('Db');
+      expect(transposeChord(chord('E'), 1)?.name).toBe('F');
+      expect(transposeChord(chord('C7b9'), 6)?.notes).toEqual(['F#', 'A#', 'C#', 'E', 'G']);
+    });
+
+    it('should move slash basses with the chord', () => {
+      const result = transposeChord(chord('Bbm11/Eb'), 2);
+      expect(result?.name).toBe('Cm11/F');
+      expect(result?.midiNotes[0]).toBe(65);
+    });
+
+    it('should return to the original chord after a full octave', () => {
+      ['C', 'F#m7b5', 'Ebmaj9', 'G13sus4', 'Am/G'].forEach((symbol) => {
+        expect(transposeChord(chord(symbol), 12)?.name).toBe(symbol);
+      });
+    });
+  });
+
+  describe('From key to key', () => {
+    it('should keep each chord on its scale degree', () => {
+      const cMajor = findKey('C', 'Major');
+      const eMajor = findKey('E', 'Major');
+      const names = ['C', 'Dm7', 'G7', 'Bb', 'Fm6'].map(symbol =>
+        transposeChordToKey(chord(symbol), cMajor, eMajor)?.name
+      );
+      expect(names).toEqual(['E', 'F#m7', 'B7', 'D', 'Am6']);
+    });
+
+    it('should follow flat keys with flat spellings', () => {
+      const gMajor = findKey('G', 'Major');
+      const dbMajor = findKey('D♭', 'Major');
+      expect(transposeChordToKey(chord('D7'), gMajor, dbMajor)?.notes).toEqual(['Ab', 'C', 'Eb', 'Gb']);
+      expect(transposeChordToKey(chord('B7'), gMajor, dbMajor)?.name).toBe('F7');
+    });
+  });
+
+  describe('Collections', () => {
+    const items = (...symbols: string[]) => symbols.map((symbol, order) => ({ chord: chord(symbol), order }));
+
+    it('should merge chords that transpose to the same name and report them', () => {
+      const result = transformCollection(items('C#7', 'Db7', 'Fm'), c => transposeChord(c, 2));
+      expect(result.items.map(item => [item.chord.name, item.order])).toEqual([['Eb7', 0], ['Gm', 2]]);
+      expect(result.merged.map(({ chord, into }) => [chord.name, into.name])).toEqual([['Db7', 'Eb7']]);
+      expect(result.skipped).toEqual([]);
+    });
+
+    it('should keep and report chords the transform cannot handle', () => {
+      const result = transformCollection(items('C', 'G'), c => c.name === 'C' ? null : transposeChord(c, -7));
+      expect(result.items.map(item => item.chord.name)).toEqual(['C']);
+      expect(result.skipped.map(c => c.name)).toEqual(['C']);
+      expect(result.merged.map(({ chord, into }) => [chord.name, into.name])).toEqual([['G', 'C']]);
+    });
+  });
+});
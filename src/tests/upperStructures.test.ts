@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { searchChords } from '../data/chordDatabase';
+import { calculateVoicings } from '../data/chordVoicings';
+import { parseChordSymbol, parsePolychord } from '../data/chordParser';
+import { transposeChord } from '../data/transpose';
+import { getUpperStructures, polychordTensions } from '../data/upperStructures';
+import { chord } from './chordFixtures';
+
+describe('Polychords', () => {
+  it('should stack the upper chord above the lower chord', () => {
+    const polychord = parsePolychord('D/C7');
+    expect(polychord?.quality.family).toBe('polychord');
+    expect(polychord?.notes).toEqual(['C', 'E', 'G', 'Bb', 'D', 'F#', 'A']);
+    expect(polychord?.midiNotes).toEqual([60, 64, 67, 70, 74, 78, 81]);
+    expect(polychord?.polychord?.upper.name).toBe('D');
+    expect(polychord?.polychord?.lower.name).toBe('C7');
+  });
+
+  it('should leave slash chords and 6/9 chords alone', () => {
+    expect(parsePolychord('C/E')).toBeNull();
+    expect(parsePolychord('C6/9')).toBeNull();
+    expect(parsePolychord('D/C6/9')?.polychord?.lower.name).toBe('C6/9');
+  });
+
+  it('should reject a layer with no notes', () => {
+    expect(parseChordSymbol('Cno1no3no5')).toBeNull();
+    expect(parsePolychord('D/Cno1no3no5')).toBeNull();
+    expect(searchChords('D/Cno1no3no5')).toEqual([]);
+  });
+
+  it('should be found by search', () => {
+    const results = searchChords('Eb/Dbmaj7');
+    expect(results[0].name).toBe('Eb/Dbmaj7');
+  });
+
+  it('should give each layer its own hand in every voicing', () => {
+    const voicings = calculateVoicings(parsePolychord('D/C7')!);
+    expect(voicings.map(voicing => voicing.name)).toEqual(['C7 + Root', 'C7 + 1st Inv', 'C7 + 2nd Inv']);
+    voicings.forEach((voicing) => {
+      expect(voicing.hands).toEqual(['left', 'left', 'left', 'left', 'right', 'right', 'right']);
+      expect(Math.max(...voicing.notes.slice(0, 4))).toBeLessThan(Math.min(...voicing.notes.slice(4)));
+    });
+  });
+
+  it('should transpose both layers', () => {
+    expect(transposeChord(parsePolychord('D/C7')!, 1)?.name).toBe('Eb/Db7');
+  });
+});
+
+describe('Upper-structure triads', () => {
+  it('should list the upper structures over a dominant seventh', () => {
+    const structures = getUpperStructures(chord('C7'));
+    expect(structures.map(({ numeral, polychord }) => `${numeral} ${polychord.name}`)).toEqual([
+      'II D/C7', '♭III Eb/C7', '♭V Gb/C7', '♭VI Ab/C7', 'VI A/C7',
+    ]);
+  });
+
+  it('should name the tensions each upper structure adds', () => {
+    const tensions = Object.fromEntries(
+      getUpperStructures(chord('C7')).map(({ numeral, tensions }) => [numeral, tensions])
+    );
+    expect(tensions['II']).toEqual(['9', '#11', '13']);
+    expect(tensions['♭V']).toEqual(['b9', '#11']);
+    expect(tensions['♭VI']).toEqual(['#9', 'b13']);
+    expect(tensions['VI']).toEqual(['b9', '13']);
+  });
+
+  it('should only apply to dominant chords', () => {
+    ['Cmaj7', 'Cm7', 'C', 'C7/E'].forEach((symbol) => {
+      expect(getUpperStructures(chord(symbol))).toEqual([]);
+    });
+  });
+
+  it('should skip tensions the lower chord already plays', () => {
+    expect(polychordTensions(parsePolychord('A/C7b9')!)).toEqual(['13']);
+  });
+});
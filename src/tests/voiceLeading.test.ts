@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { voiceLeadSequence, voiceMovement } from '../data/voiceLeading';
+import { chords } from './chordFixtures';
+
+const pitchClasses = (notes: number[]) => [...new Set(notes.map(note => note % 12))].sort((a, b) => a - b);
+
+describe('Voice Leading', () => {
+  it('should measure movement voice by voice', () => {
+    expect(voiceMovement([60, 64, 67], [60, 64, 69])).toBe(2);
+    expect(voiceMovement([60, 64, 67], [60, 65, 69])).toBe(3);
+    expect(voiceMovement([62, 65, 69, 72], [62, 65, 67, 71])).toBe(3);
+  });
+
+  it('should return nothing for an empty sequence', () => {
+    expect(voiceLeadSequence([])).toEqual([]);
+  });
+
+  it('should start on root position and keep every chord on the keyboard', () => {
+    const sequence = voiceLeadSequence(chords('C', 'Am', 'F', 'G'));
+    expect(sequence[0].voicing.name).toBe('Root');
+
+    sequence.forEach((step) => {
+      expect(pitchClasses(step.voicing.notes)).toEqual(pitchClasses(step.chord.midiNotes));
+      step.voicing.notes.forEach((note) => {
+        expect(note).toBeGreaterThanOrEqual(60);
+        expect(note).toBeLessThanOrEqual(83);
+      });
+    });
+  });
+
+  it('should move less than stacking every chord in root position', () => {
+    const progression = chords('C', 'Am', 'F', 'G');
+    const smooth = voiceLeadSequence(progression);
+    const smoothTotal = smooth.reduce((total, step) => total + step.movement, 0);
+
+    const rootTotal = progression.slice(1).reduce(
+      (total, chord, index) => total + voiceMovement(progression[index].midiNotes, chord.midiNotes),
+      0
+    );
+    expect(smoothTotal).toBeLessThan(rootTotal);
+    expect(smooth.map(step => step.movement)).toEqual([0, 2, 1, 6]);
+  });
+
+  it('should highlight only the voices that move', () => {
+    const [, am] = voiceLeadSequence(chords('C', 'Am'));
+    expect(am.voicing.notes).toEqual([72, 76, 81]);
+    expect(am.movingNotes).toEqual([81]);
+  });
+
+  it('should lead a ii-V-I by step', () => {
+    const sequence = voiceLeadSequence(chords('Dm7', 'G7', 'Cmaj7'));
+    expect(sequence.map(step => step.movement)).toEqual([0, 3, 3]);
+  });
+
+  it('should honour common-tone and top-voice constraints', () => {
+    const sequence = voiceLeadSequence(chords('C', 'Am', 'F'), { keepCommonTones: true, maxTopVoiceLeap: 0 });
+    const tops = sequence.map(step => Math.max(...step.voicing.notes));
+    expect(new Set(tops).size).toBe(1);
+
+    sequence.slice(1).forEach((step, index) => {
+      const previous = sequence[index].voicing.notes;
+      const shared = previous.filter(note => pitchClasses(step.voicing.notes).includes(note % 12));
+      shared.forEach(note => expect(step.voicing.notes).toContain(note));
+    });
+  });
+});
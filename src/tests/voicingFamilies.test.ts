@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { calculateVoicings } from '../data/chordVoicings';
+import { VOICING_FAMILIES, VoicingFamily, calculateFamilyVoicings } from '../data/voicingFamilies';
+import { chord } from './chordFixtures';
+
+const pitchClasses = (notes: number[]) => [...new Set(notes.map(note => note % 12))].sort((a, b) => a - b);
+
+describe('Voicing Families', () => {
+  it('should use calculateVoicings for close position', () => {
+    expect(calculateFamilyVoicings(chord('Cmaj7'), 'close')).toEqual(calculateVoicings(chord('Cmaj7')));
+  });
+
+  it('should build drop 2 voicings named after their bass note', () => {
+    const voicings = calculateFamilyVoicings(chord('Cmaj7'), 'drop2');
+    expect(voicings.map(voicing => voicing.name)).toEqual([
+      'Drop 2 – Root', 'Drop 2 – 1st Inv', 'Drop 2 – 2nd Inv', 'Drop 2 – 3rd Inv',
+    ]);
+    expect(voicings[0].notes).toEqual([60, 67, 71, 76]);
+    expect(voicings[0].noteNames).toEqual(['C', 'G', 'B', 'E']);
+    expect(voicings[2].noteNames).toEqual(['G', 'C', 'E', 'B']);
+  });
+
+  it('should build a full drop core for altered and no-5th chords', () => {
+    ['C7alt', 'C9(no5)'].forEach((symbol) => {
+      ['drop2', 'drop3'].forEach((family) => {
+        const voicings = calculateFamilyVoicings(chord(symbol), family as VoicingFamily);
+        const names = voicings.map(voicing => voicing.name.split(' – ')[1]);
+        expect(names, `${symbol} ${family}`).toEqual(['Root', '1st Inv', '2nd Inv', '3rd Inv']);
+      });
+    });
+
+    // The altered dominant's b13 stands in for the missing fifth; its b9 stays out of the core
+    const alt = calculateFamilyVoicings(chord('C7alt'), 'drop2');
+    expect(alt[0].noteNames).toEqual(['C', 'Ab', 'Bb', 'E']);
+    expect(alt[2].noteNames[0]).toBe('Ab');
+  });
+
+  it('should build drop 3 voicings for four-note chords only', () => {
+    const voicings = calculateFamilyVoicings(chord('Cmaj7'), 'drop3');
+    expect(voicings[0].name).toBe('Drop 3 – Root');
+    expect(voicings[0].noteNames).toEqual(['C', 'B', 'E', 'G']);
+    expect(calculateFamilyVoicings(chord('C'), 'drop3')).toEqual([]);
+  });
+
+  it('should build 3-7 shells', () => {
+    const voicings = calculateFamilyVoicings(chord('G7'), 'shell');
+    expect(voicings.map(voicing => voicing.noteNames)).toEqual([['G', 'B', 'F'], ['G', 'F', 'B']]);
+    expect(calculateFamilyVoicings(chord('G'), 'shell')).toEqual([]);
+  });
+
+  it('should build rootless A and B voicings with a 9th', () => {
+    const [formA, formB] = calculateFamilyVoicings(chord('Dm7'), 'rootless');
+    expect(formA.name).toBe('Rootless A');
+    expect(formA.noteNames).toEqual(['F', 'A', 'C', 'E']);
+    expect(formB.noteNames).toEqual(['C', 'E', 'F', 'A']);
+
+    // The 13th replaces the fifth and an altered 9th is kept
+    const [dominant] = calculateFamilyVoicings(chord('G13b9'), 'rootless');
+    expect(dominant.noteNames).toEqual(['B', 'E', 'F', 'Ab']);
+  });
+
+  it('should build spread voicings with the root alone in the bass', () => {
+    const voicings = calculateFamilyVoicings(chord('Cmaj7'), 'spread');
+    expect(voicings.map(voicing => voicing.notes)).toEqual([[60, 67, 76, 83], [60, 71, 76, 79]]);
+    expect(calculateFamilyVoicings(chord('F'), 'spread')[0].noteNames).toEqual(['F', 'C', 'A']);
+  });
+
+  it('should split two-hand voicings between the hands', () => {
+    const voicings = calculateFamilyVoicings(chord('Cmaj7'), 'twoHand');
+    expect(voicings.map(voicing => voicing.name)).toEqual([
+      'Two Hands – R-7 / 3-5-9', 'Two Hands – R-5 / 3-7-9',
+    ]);
+
+    const [first] = voicings;
+    expect(first.notes).toEqual([48, 59, 64, 67, 74]);
+    expect(first.noteNames).toEqual(['C', 'B', 'E', 'G', 'D']);
+    expect(first.hands).toEqual(['left', 'left', 'right', 'right', 'right']);
+  });
+
+  it('should keep the left hand below the right hand', () => {
+    ['C', 'G13', 'Bm7b5', 'F#7', 'Ebmaj9'].forEach((symbol) => {
+      calculateFamilyVoicings(chord(symbol), 'twoHand').forEach(({ notes, hands }) => {
+        const left = notes.filter((_, index) => hands?.[index] === 'left');
+        const right = notes.filter((_, index) => hands?.[index] === 'right');
+        expect(left.length).toBeGreaterThan(0);
+        expect(right.length).toBeGreaterThan(0);
+        expect(Math.max(...left)).toBeLessThan(Math.min(...right));
+        expect(Math.min(...right)).toBeGreaterThanOrEqual(60);
+      });
+    });
+  });
+
+  it('should use the 13th and the triad forms where they apply', () => {
+    expect(calculateFamilyVoicings(chord('G13'), 'twoHand')[0].name).toBe('Two Hands – R-7 / 3-13-9');
+    const triad = calculateFamilyVoicings(chord('F'), 'twoHand');
+    expect(triad.map(voicing => voicing.name)).toEqual(['Two Hands – R-5 / 3-5-R']);
+    expect(triad[0].notes).toEqual([41, 48, 69, 72, 77]);
+  });
+
+  it('should keep every voicing ascending and true to the chord', () => {
+    ['C', 'Am7', 'F#m7b5', 'Bbmaj9', 'Eb7#9', 'C6'].forEach((symbol) => {
+      const source = chord(symbol);
+      VOICING_FAMILIES.forEach(({ value }) => {
+        calculateFamilyVoicings(source, value).forEach((voicing) => {
+          expect(voicing.notes).toEqual([...voicing.notes].sort((a, b) => a - b));
+          expect(voicing.notes.length).toBe(voicing.noteNames.length);
+          pitchClasses(voicing.notes).forEach((pitchClass) => {
+            // Rootless voicings may add a natural 9th
+            const allowed = [...pitchClasses(source.midiNotes), (source.midiNotes[0] + 2) % 12];
+            expect(allowed).toContain(pitchClass);
+          });
+        });
+      });
+    });
+  });
+
+  it('should skip families that need chord-tone degrees for slash chords', () => {
+    expect(calculateFamilyVoicings(chord('Am/G'), 'drop2')).toEqual([]);
+    expect(calculateFamilyVoicings(chord('Am/G'), 'close').length).toBeGreaterThan(0);
+  });
+});
@@ -2,9 +2,10 @@
   import { defineConfig } from 'vite';
   import react from '@vitejs/plugin-react-swc';
   import path from 'path';
+  import { chordData } from './plugins/chordData';
 
   export default defineConfig({
-    plugins: [react()],
+    plugins: [react(), chordData()],
     resolve: {
       extensions: ['.js', '.jsx', '.ts', '.tsx', '.json'],
       alias: {
@@ -1,9 +1,10 @@
 import { defineConfig } from 'vitest/config';
 import react from '@vitejs/plugin-react-swc';
 import path from 'path';
+import { chordData } from './plugins/chordData';
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), chordData()],
   test: {
     globals: true,
     environment: 'jsdom',